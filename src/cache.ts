@@ -0,0 +1,171 @@
+/**
+ * Response cache for the ClinicalTrials.gov client
+ *
+ * Keeps recent API responses in an in-memory LRU and, when a directory is
+ * configured, mirrors them to disk so they survive a restart. Entries expire
+ * after a TTL chosen per endpoint type (single study lookups vs searches).
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type CacheEndpoint = 'study' | 'search';
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  ttlMs: Record<CacheEndpoint, number>;
+  diskDir?: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  diskHits: number;
+  evictions: number;
+  entries: number;
+  maxEntries: number;
+  hitRate: number;
+  ttlSeconds: Record<CacheEndpoint, number>;
+  diskDir: string | null;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  value: unknown;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private diskHits = 0;
+  private evictions = 0;
+
+  constructor(private options: ResponseCacheOptions) {}
+
+  /**
+   * Build a stable cache key from a request path and its query parameters.
+   */
+  static keyFor(url: string, params: Record<string, unknown>): string {
+    const sorted = Object.keys(params)
+      .filter(key => params[key] !== undefined)
+      .sort()
+      .map(key => `${key}=${String(params[key])}`);
+    return `${url}?${sorted.join('&')}`;
+  }
+
+  isEnabled(endpoint: CacheEndpoint): boolean {
+    return this.options.ttlMs[endpoint] > 0;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      return entry.value as T;
+    }
+    if (entry) {
+      this.entries.delete(key);
+    }
+
+    const diskEntry = await this.readFromDisk(key);
+    if (diskEntry) {
+      this.remember(key, diskEntry);
+      this.hits++;
+      this.diskHits++;
+      return diskEntry.value as T;
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  async set(key: string, value: unknown, endpoint: CacheEndpoint): Promise<void> {
+    if (!this.isEnabled(endpoint)) {
+      return;
+    }
+
+    const entry: CacheEntry = { expiresAt: Date.now() + this.options.ttlMs[endpoint], value };
+    this.remember(key, entry);
+    await this.writeToDisk(key, entry);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    if (this.options.diskDir) {
+      const files = await fs.readdir(this.options.diskDir).catch(() => [] as string[]);
+      await Promise.all(files
+        .filter(file => file.endsWith('.json'))
+        .map(file => fs.unlink(path.join(this.options.diskDir!, file)).catch(() => undefined)));
+    }
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      diskHits: this.diskHits,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+      ttlSeconds: {
+        study: this.options.ttlMs.study / 1000,
+        search: this.options.ttlMs.search / 1000
+      },
+      diskDir: this.options.diskDir || null
+    };
+  }
+
+  private remember(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      // Map iteration order is insertion order, so the first key is least recently used
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  private diskPath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.options.diskDir!, `${hash}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | undefined> {
+    if (!this.options.diskDir) {
+      return undefined;
+    }
+
+    try {
+      const entry: CacheEntry = JSON.parse(await fs.readFile(this.diskPath(key), 'utf8'));
+      if (entry.expiresAt > Date.now()) {
+        return entry;
+      }
+      await fs.unlink(this.diskPath(key)).catch(() => undefined);
+    } catch {
+      // Missing or unreadable entries are treated as misses
+    }
+    return undefined;
+  }
+
+  private async writeToDisk(key: string, entry: CacheEntry) {
+    if (!this.options.diskDir) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(this.options.diskDir, { recursive: true });
+      await fs.writeFile(this.diskPath(key), JSON.stringify(entry));
+    } catch (error) {
+      console.error('[Cache] Failed to write entry to disk:', error instanceof Error ? error.message : error);
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Condition vocabulary
+ *
+ * A bundled MeSH-style tree of common conditions: each concept has its
+ * preferred heading, the synonyms patients and registrants use for it and its
+ * narrower concepts. Condition searches use it to expand a term to every name
+ * of the concept (and optionally of its narrower concepts), and statistics use
+ * it to roll free-text conditions up to their top-level category.
+ */
+
+export interface ConditionConcept {
+  name: string;
+  synonyms: string[];
+  narrower?: ConditionConcept[];
+}
+
+// Top-level entries are the categories conditions roll up to
+export const CONDITION_VOCABULARY: ConditionConcept[] = [
+  {
+    name: 'Neoplasms',
+    synonyms: ['cancer', 'tumor', 'tumour', 'neoplasm', 'malignancy', 'carcinoma'],
+    narrower: [
+      {
+        name: 'Breast Neoplasms',
+        synonyms: ['breast cancer', 'breast carcinoma', 'breast tumor', 'mammary cancer'],
+        narrower: [{ name: 'Triple Negative Breast Neoplasms', synonyms: ['triple negative breast cancer', 'TNBC'] }]
+      },
+      {
+        name: 'Lung Neoplasms',
+        synonyms: ['lung cancer', 'pulmonary neoplasms', 'lung carcinoma'],
+        narrower: [
+          { name: 'Carcinoma, Non-Small-Cell Lung', synonyms: ['non-small cell lung cancer', 'NSCLC'] },
+          { name: 'Small Cell Lung Carcinoma', synonyms: ['small cell lung cancer', 'SCLC'] }
+        ]
+      },
+      { name: 'Colorectal Neoplasms', synonyms: ['colorectal cancer', 'colon cancer', 'rectal cancer', 'bowel cancer'] },
+      { name: 'Prostatic Neoplasms', synonyms: ['prostate cancer', 'prostate carcinoma'] },
+      { name: 'Pancreatic Neoplasms', synonyms: ['pancreatic cancer', 'pancreatic adenocarcinoma'] },
+      {
+        name: 'Leukemia',
+        synonyms: ['leukaemia'],
+        narrower: [
+          { name: 'Leukemia, Myeloid, Acute', synonyms: ['acute myeloid leukemia', 'acute myelogenous leukemia', 'AML'] },
+          { name: 'Precursor Cell Lymphoblastic Leukemia-Lymphoma', synonyms: ['acute lymphoblastic leukemia', 'acute lymphocytic leukemia'] },
+          { name: 'Leukemia, Lymphocytic, Chronic, B-Cell', synonyms: ['chronic lymphocytic leukemia', 'CLL'] }
+        ]
+      },
+      { name: 'Lymphoma', synonyms: ['lymphomas', 'non-Hodgkin lymphoma', 'Hodgkin lymphoma'] },
+      { name: 'Melanoma', synonyms: ['malignant melanoma', 'cutaneous melanoma'] },
+      { name: 'Multiple Myeloma', synonyms: ['myeloma', 'plasma cell myeloma'] }
+    ]
+  },
+  {
+    name: 'Cardiovascular Diseases',
+    synonyms: ['cardiovascular disease', 'heart disease', 'CVD'],
+    narrower: [
+      { name: 'Myocardial Infarction', synonyms: ['heart attack', 'acute myocardial infarction', 'STEMI', 'NSTEMI'] },
+      { name: 'Heart Failure', synonyms: ['cardiac failure', 'congestive heart failure', 'CHF', 'HFrEF', 'HFpEF'] },
+      { name: 'Atrial Fibrillation', synonyms: ['AFib', 'auricular fibrillation'] },
+      { name: 'Hypertension', synonyms: ['high blood pressure', 'arterial hypertension'] },
+      { name: 'Coronary Artery Disease', synonyms: ['coronary heart disease', 'ischemic heart disease', 'CAD'] },
+      { name: 'Stroke', synonyms: ['cerebrovascular accident', 'CVA', 'brain attack', 'ischemic stroke'] }
+    ]
+  },
+  {
+    name: 'Nutritional and Metabolic Diseases',
+    synonyms: ['metabolic disease', 'metabolic disorder'],
+    narrower: [
+      {
+        name: 'Diabetes Mellitus',
+        synonyms: ['diabetes'],
+        narrower: [
+          { name: 'Diabetes Mellitus, Type 2', synonyms: ['type 2 diabetes', 'T2DM', 'adult-onset diabetes', 'non-insulin-dependent diabetes'] },
+          { name: 'Diabetes Mellitus, Type 1', synonyms: ['type 1 diabetes', 'T1DM', 'juvenile diabetes', 'insulin-dependent diabetes'] }
+        ]
+      },
+      { name: 'Obesity', synonyms: ['obese', 'morbid obesity'] },
+      { name: 'Dyslipidemias', synonyms: ['dyslipidemia', 'hyperlipidemia', 'hypercholesterolemia', 'high cholesterol'] }
+    ]
+  },
+  {
+    name: 'Respiratory Tract Diseases',
+    synonyms: ['respiratory disease', 'lung disease'],
+    narrower: [
+      { name: 'Asthma', synonyms: ['bronchial asthma'] },
+      { name: 'Pulmonary Disease, Chronic Obstructive', synonyms: ['chronic obstructive pulmonary disease', 'COPD', 'emphysema', 'chronic bronchitis'] },
+      { name: 'Cystic Fibrosis', synonyms: ['mucoviscidosis'] },
+      { name: 'Idiopathic Pulmonary Fibrosis', synonyms: ['IPF'] }
+    ]
+  },
+  {
+    name: 'Nervous System Diseases',
+    synonyms: ['neurological disorder', 'neurologic disease'],
+    narrower: [
+      { name: 'Alzheimer Disease', synonyms: ["Alzheimer's disease", 'Alzheimers disease', "Alzheimer's dementia"] },
+      { name: 'Parkinson Disease', synonyms: ["Parkinson's disease", 'Parkinsons disease'] },
+      { name: 'Multiple Sclerosis', synonyms: ['disseminated sclerosis', 'relapsing-remitting multiple sclerosis'] },
+      { name: 'Epilepsy', synonyms: ['seizure disorder'] },
+      { name: 'Migraine Disorders', synonyms: ['migraine'] },
+      { name: 'Amyotrophic Lateral Sclerosis', synonyms: ["Lou Gehrig's disease", 'motor neuron disease', 'ALS'] }
+    ]
+  },
+  {
+    name: 'Mental Disorders',
+    synonyms: ['psychiatric disorder', 'mental illness'],
+    narrower: [
+      { name: 'Depressive Disorder, Major', synonyms: ['major depressive disorder', 'major depression', 'depression', 'MDD'] },
+      { name: 'Schizophrenia', synonyms: [] },
+      { name: 'Bipolar Disorder', synonyms: ['bipolar affective disorder', 'manic depression'] },
+      { name: 'Anxiety Disorders', synonyms: ['anxiety', 'generalized anxiety disorder'] },
+      { name: 'Autism Spectrum Disorder', synonyms: ['autism', 'ASD'] },
+      { name: 'Attention Deficit Disorder with Hyperactivity', synonyms: ['attention deficit hyperactivity disorder', 'ADHD'] }
+    ]
+  },
+  {
+    name: 'Infections',
+    synonyms: ['infectious disease'],
+    narrower: [
+      { name: 'COVID-19', synonyms: ['SARS-CoV-2 infection', 'coronavirus disease 2019'] },
+      { name: 'HIV Infections', synonyms: ['HIV', 'human immunodeficiency virus', 'AIDS'] },
+      { name: 'Hepatitis C', synonyms: ['HCV', 'hepatitis C virus infection'] },
+      { name: 'Tuberculosis', synonyms: ['pulmonary tuberculosis'] },
+      { name: 'Influenza, Human', synonyms: ['influenza', 'flu'] },
+      { name: 'Malaria', synonyms: [] }
+    ]
+  },
+  {
+    name: 'Immune System Diseases',
+    synonyms: ['immune disorder', 'autoimmune disease'],
+    narrower: [
+      { name: 'Arthritis, Rheumatoid', synonyms: ['rheumatoid arthritis'] },
+      { name: 'Lupus Erythematosus, Systemic', synonyms: ['systemic lupus erythematosus', 'SLE', 'lupus'] }
+    ]
+  },
+  {
+    name: 'Digestive System Diseases',
+    synonyms: ['digestive disease', 'gastrointestinal disease'],
+    narrower: [
+      {
+        name: 'Inflammatory Bowel Diseases',
+        synonyms: ['inflammatory bowel disease', 'IBD'],
+        narrower: [
+          { name: 'Crohn Disease', synonyms: ["Crohn's disease", 'Crohns disease'] },
+          { name: 'Colitis, Ulcerative', synonyms: ['ulcerative colitis'] }
+        ]
+      },
+      { name: 'Non-alcoholic Fatty Liver Disease', synonyms: ['NAFLD', 'nonalcoholic steatohepatitis', 'NASH', 'MASLD', 'MASH'] }
+    ]
+  },
+  {
+    name: 'Skin and Connective Tissue Diseases',
+    synonyms: ['skin disease', 'dermatologic disease'],
+    narrower: [
+      { name: 'Psoriasis', synonyms: ['plaque psoriasis'] },
+      { name: 'Dermatitis, Atopic', synonyms: ['atopic dermatitis', 'eczema'] }
+    ]
+  },
+  {
+    name: 'Musculoskeletal Diseases',
+    synonyms: ['musculoskeletal disorder'],
+    narrower: [
+      { name: 'Osteoarthritis', synonyms: ['degenerative joint disease'] },
+      { name: 'Osteoporosis', synonyms: [] }
+    ]
+  }
+];
+
+export interface ConditionExpansion {
+  term: string;
+  // Preferred heading the term resolved to, and its top-level category
+  concept?: string;
+  category?: string;
+  synonyms: string[];
+  narrowerTerms: string[];
+  // What was sent as query.cond
+  query: string;
+}
+
+interface IndexedConcept {
+  concept: ConditionConcept;
+  category: ConditionConcept;
+}
+
+// Lowercase without accents or punctuation: "Crohn's Disease" → "crohn s disease"
+export const foldTerm = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const index = new Map<string, IndexedConcept>();
+for (const category of CONDITION_VOCABULARY) {
+  const visit = (concept: ConditionConcept) => {
+    for (const name of [concept.name, ...concept.synonyms]) {
+      index.set(foldTerm(name), { concept, category });
+    }
+    concept.narrower?.forEach(visit);
+  };
+  visit(category);
+}
+
+// Longest terms first, so "breast cancer" wins over "cancer" inside free text
+const termsByLength = [...index.keys()].sort((a, b) => b.length - a.length);
+const categoryCache = new Map<string, string | undefined>();
+const MAX_CACHED_CATEGORIES = 10000;
+
+function descendants(concept: ConditionConcept): ConditionConcept[] {
+  return (concept.narrower || []).flatMap(child => [child, ...descendants(child)]);
+}
+
+const quote = (term: string) => `"${term.replace(/"/g, '')}"`;
+
+/**
+ * Expand a condition to every name of its concept (unless `synonyms` is
+ * false), plus the preferred headings of narrower concepts when `narrower` is
+ * set. Terms the vocabulary does not know are searched as typed.
+ */
+export function expandCondition(term: string, options: { synonyms?: boolean; narrower?: boolean } = {}): ConditionExpansion {
+  const match = index.get(foldTerm(term));
+  if (!match) {
+    return { term, synonyms: [], narrowerTerms: [], query: term };
+  }
+
+  const { concept, category } = match;
+  const synonyms = options.synonyms === false
+    ? []
+    : [concept.name, ...concept.synonyms].filter(name => foldTerm(name) !== foldTerm(term));
+  const narrowerTerms = options.narrower ? descendants(concept).map(child => child.name) : [];
+  return {
+    term,
+    concept: concept.name,
+    category: category.name,
+    synonyms,
+    narrowerTerms,
+    query: [term, ...synonyms, ...narrowerTerms].map(quote).join(' OR ')
+  };
+}
+
+/**
+ * The top-level category of a free-text condition, found through the longest
+ * vocabulary term it contains as whole words ("Metastatic Breast Cancer" →
+ * Neoplasms). Undefined when no term matches.
+ */
+export function conditionCategory(condition: string): string | undefined {
+  const folded = foldTerm(condition);
+  if (!categoryCache.has(folded)) {
+    if (categoryCache.size >= MAX_CACHED_CATEGORIES) {
+      categoryCache.clear();
+    }
+    const padded = ` ${folded} `;
+    const term = termsByLength.find(candidate => padded.includes(` ${candidate} `));
+    categoryCache.set(folded, term && index.get(term)!.category.name);
+  }
+  return categoryCache.get(folded);
+}
@@ -0,0 +1,369 @@
+/**
+ * Eligibility criteria parser
+ *
+ * ClinicalTrials.gov stores eligibility criteria as one free-text field,
+ * conventionally an "Inclusion Criteria:" and an "Exclusion Criteria:"
+ * heading each followed by a (possibly nested) bulleted list. The parser
+ * splits that text into inclusion and exclusion trees and pulls structured
+ * items out of each criterion: age bounds, performance status, lab
+ * thresholds, prior-therapy requirements and pregnancy clauses.
+ */
+
+export type Comparator = '≥' | '>' | '≤' | '<' | '=';
+
+export type StructuredCriterion =
+  | { type: 'age'; comparator: Comparator; value: number; unit: 'years' }
+  | { type: 'performanceStatus'; scale: 'ECOG' | 'Karnofsky' | 'Lansky'; comparator: Comparator; value: number }
+  | { type: 'lab'; analyte: string; comparator: Comparator; value: number; unit?: string }
+  | { type: 'priorTherapy'; therapy?: string; lines?: number; negated: boolean }
+  | { type: 'pregnancy'; pregnant: boolean; breastfeeding: boolean; negativeTest: boolean; contraception: boolean };
+
+export interface EligibilityCriterion {
+  text: string;
+  structured?: StructuredCriterion[];
+  children?: EligibilityCriterion[];
+}
+
+export interface ParsedEligibilityCriteria {
+  inclusion: EligibilityCriterion[];
+  exclusion: EligibilityCriterion[];
+}
+
+const INCLUSION_HEADING = /^\s*(?:key\s+)?inclusion\s+criteria\b[^a-z]*$/i;
+const EXCLUSION_HEADING = /^\s*(?:key\s+)?exclusion\s+criteria\b[^a-z]*$/i;
+const BULLET = /^(\s*)(?:[*\-•·o]|\d+[.)]|[a-z][.)]|[ivx]+[.)])\s+/i;
+
+// Lab analytes recognised in thresholds, with the spellings used in criteria
+// text. Aliases are matched longest first, so "creatinine clearance" wins
+// over "creatinine".
+export const LAB_ANALYTES: Record<string, string[]> = {
+  'HbA1c': ['hemoglobin A1c', 'haemoglobin A1c', 'glycated hemoglobin', 'HbA1c', 'A1c'],
+  'Creatinine clearance': ['creatinine clearance', 'CrCl'],
+  'eGFR': ['estimated glomerular filtration rate', 'eGFR', 'GFR'],
+  'ANC': ['absolute neutrophil count', 'neutrophil count', 'neutrophils', 'ANC'],
+  'ALC': ['absolute lymphocyte count', 'lymphocyte count', 'ALC'],
+  'Platelets': ['platelet count', 'platelets', 'PLT'],
+  'Hemoglobin': ['hemoglobin', 'haemoglobin', 'Hgb', 'Hb'],
+  'WBC': ['white blood cell count', 'white blood cells', 'leukocytes', 'WBC'],
+  'Creatinine': ['serum creatinine', 'creatinine'],
+  'Total bilirubin': ['total bilirubin', 'bilirubin'],
+  'AST': ['aspartate aminotransferase', 'SGOT', 'AST'],
+  'ALT': ['alanine aminotransferase', 'SGPT', 'ALT'],
+  'ALP': ['alkaline phosphatase', 'ALP'],
+  'Albumin': ['serum albumin', 'albumin'],
+  'INR': ['INR'],
+  'LVEF': ['left ventricular ejection fraction', 'ejection fraction', 'LVEF'],
+  'QTc': ['QTcF', 'QTc'],
+  'PSA': ['prostate-specific antigen', 'PSA'],
+  'BMI': ['body mass index', 'BMI']
+};
+
+const COMPARATOR_WORDS: Array<[string, Comparator]> = [
+  ['greater than or equal to', '≥'],
+  ['less than or equal to', '≤'],
+  ['no less than', '≥'],
+  ['no more than', '≤'],
+  ['not more than', '≤'],
+  ['at least', '≥'],
+  ['at most', '≤'],
+  ['greater than', '>'],
+  ['more than', '>'],
+  ['less than', '<'],
+  ['>=', '≥'],
+  ['=>', '≥'],
+  ['<=', '≤'],
+  ['=<', '≤'],
+  ['≥', '≥'],
+  ['≤', '≤'],
+  ['>', '>'],
+  ['<', '<'],
+  ['=', '=']
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const COMPARATOR = `(${COMPARATOR_WORDS.map(([word]) => escapeRegExp(word)).join('|')})`;
+const NUMBER = '(\\d+(?:,\\d{3})*(?:\\.\\d+)?)';
+const UNIT = '(\\s*(?:x|×|times)\\s*(?:the\\s+)?(?:institutional\\s+)?(?:ULN|upper limit of normal)|\\s*[a-zA-Zµμ%/][\\w/µμ%^.³]*)?';
+const UNIT_STOP_WORDS = /^(?:and|or|for|in|within|at|with|of|if|on|per|x)$/i;
+const WORD_NUMBERS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+function toComparator(word: string): Comparator {
+  return COMPARATOR_WORDS.find(([candidate]) => candidate === word.toLowerCase())![1];
+}
+
+const parseNumber = (text: string) => Number(text.replace(/,/g, ''));
+
+function normalizeUnit(raw?: string): string | undefined {
+  const unit = raw?.trim().replace(/\.$/, '');
+  if (!unit || UNIT_STOP_WORDS.test(unit)) {
+    return undefined;
+  }
+  return /ULN|upper limit of normal/i.test(unit) ? 'x ULN' : unit;
+}
+
+/**
+ * Canonical analyte name for a spelling used in criteria text or a patient
+ * profile, e.g. "absolute neutrophil count" -> "ANC".
+ */
+export function canonicalAnalyte(name: string): string | undefined {
+  const wanted = name.trim().toLowerCase();
+  return Object.keys(LAB_ANALYTES).find(analyte =>
+    analyte.toLowerCase() === wanted || LAB_ANALYTES[analyte].some(alias => alias.toLowerCase() === wanted));
+}
+
+const ANALYTE_ALIASES = Object.entries(LAB_ANALYTES)
+  .flatMap(([analyte, aliases]) => aliases.map(alias => ({ analyte, alias })))
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+/**
+ * Analytes named in a stretch of text, nearest to its end first. Analytes
+ * joined by "and"/"or"/commas ("AST and ALT ≤ 2.5 x ULN") share a threshold.
+ */
+function analytesBefore(segment: string): string[] {
+  const found: Array<{ analyte: string; start: number; end: number }> = [];
+  for (const { analyte, alias } of ANALYTE_ALIASES) {
+    const pattern = new RegExp(`(?<![\\w-])${escapeRegExp(alias)}(?![\\w-])`, /^[A-Z0-9]+$/.test(alias) ? 'g' : 'gi');
+    for (const match of segment.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (!found.some(other => start < other.end && end > other.start)) {
+        found.push({ analyte, start, end });
+      }
+    }
+  }
+  found.sort((a, b) => a.start - b.start);
+
+  const last = found[found.length - 1];
+  if (!last || !/^[\s:,]*(?:\([^)]*\)\s*)?(?:level|count|value|concentration|of)?[\s:]*$/i.test(segment.slice(last.end))) {
+    return [];
+  }
+
+  const shared = [last.analyte];
+  for (let i = found.length - 2; i >= 0; i--) {
+    if (!/^\s*(?:,|\/|and|or)\s*(?:and|or)?\s*$/i.test(segment.slice(found[i].end, found[i + 1].start))) {
+      break;
+    }
+    shared.unshift(found[i].analyte);
+  }
+  return [...new Set(shared)];
+}
+
+function parseLabThresholds(text: string): StructuredCriterion[] {
+  const items: StructuredCriterion[] = [];
+  let segmentStart = 0;
+
+  const ranges = new RegExp(`\\b(?:between|from)\\s+${NUMBER}\\s*%?\\s*(?:and|to|-)\\s*${NUMBER}${UNIT}`, 'gi');
+  for (const match of text.matchAll(ranges)) {
+    const unit = normalizeUnit(match[3]);
+    for (const analyte of analytesBefore(text.slice(segmentStart, match.index))) {
+      items.push({ type: 'lab', analyte, comparator: '≥', value: parseNumber(match[1]), unit });
+      items.push({ type: 'lab', analyte, comparator: '≤', value: parseNumber(match[2]), unit });
+    }
+    segmentStart = match.index! + match[0].length;
+  }
+
+  segmentStart = 0;
+  const thresholds = new RegExp(`${COMPARATOR}\\s*${NUMBER}${UNIT}`, 'gi');
+  for (const match of text.matchAll(thresholds)) {
+    for (const analyte of analytesBefore(text.slice(segmentStart, match.index))) {
+      items.push({ type: 'lab', analyte, comparator: toComparator(match[1]), value: parseNumber(match[2]), unit: normalizeUnit(match[3]) });
+    }
+    segmentStart = match.index! + match[0].length;
+  }
+
+  return items;
+}
+
+function parseAge(text: string): StructuredCriterion[] {
+  const toYears = (value: string, unit?: string) => (/month/i.test(unit || '') ? Number(value) / 12 : Number(value));
+  const age = (comparator: Comparator, value: number): StructuredCriterion => ({ type: 'age', comparator, value, unit: 'years' });
+
+  const range = text.match(/\b(?:age[ds]?|between)\b[^0-9]{0,25}?(\d+)\s*(?:years?\s*)?(?:-|–|to|and)\s*(\d+)\s*(years?|months?)/i) ||
+    text.match(/\b(\d+)\s*(?:-|–|to)\s*(\d+)\s*(years?|months?)\s*(?:of age|old)/i);
+  if (range) {
+    return [age('≥', toYears(range[1], range[3])), age('≤', toYears(range[2], range[3]))];
+  }
+
+  const bound = text.match(new RegExp(`\\bage[ds]?\\b[^0-9<>≥≤=]{0,25}?${COMPARATOR}\\s*(\\d+)\\s*(years?|months?)?`, 'i')) ||
+    text.match(new RegExp(`${COMPARATOR}\\s*(\\d+)\\s*(years?|months?)\\s*(?:of age|old)`, 'i'));
+  if (bound) {
+    return [age(toComparator(bound[1]), toYears(bound[2], bound[3]))];
+  }
+
+  const open = text.match(/\b(\d+)\s*(years?|months?)\s*(?:of age\s*|old\s*)?(?:or|and)\s*(older|over|above|younger|under|less)\b/i);
+  if (open) {
+    return [age(/older|over|above/i.test(open[3]) ? '≥' : '≤', toYears(open[1], open[2]))];
+  }
+  return [];
+}
+
+function parsePerformanceStatus(text: string): StructuredCriterion[] {
+  const scaleMatch = text.match(/\b(ECOG|WHO|Zubrod|Karnofsky|KPS|Lansky)\b/) || text.match(/performance status/i);
+  if (!scaleMatch) {
+    return [];
+  }
+  const name = (scaleMatch[1] || '').toUpperCase();
+  const scale = name === 'KARNOFSKY' || name === 'KPS' ? 'Karnofsky' : name === 'LANSKY' ? 'Lansky' : 'ECOG';
+  const after = text.slice(scaleMatch.index!);
+  const status = (comparator: Comparator, value: number): StructuredCriterion => ({ type: 'performanceStatus', scale, comparator, value });
+
+  const range = after.match(/\b(\d+)\s*%?\s*(?:-|–|to|or)\s*(\d+)\b/) || after.match(/\b(\d+)(?:\s*,\s*\d+)*\s*,?\s*or\s*(\d+)\b/);
+  if (range) {
+    return [status('≥', Number(range[1])), status('≤', Number(range[2]))];
+  }
+  const bound = after.match(new RegExp(`${COMPARATOR}\\s*(\\d+)`, 'i'));
+  if (bound) {
+    return [status(toComparator(bound[1]), Number(bound[2]))];
+  }
+  const single = after.match(/(?:status|score|of)\s*(?:of\s*)?(\d+)\b/i);
+  return single ? [status('=', Number(single[1]))] : [];
+}
+
+function parsePriorTherapy(text: string): StructuredCriterion[] {
+  if (!/\b(?:prior|previous(?:ly)?)\b(?!\s+to\b)|\b(?:treated|received)\s+with\b/i.test(text)) {
+    return [];
+  }
+
+  const named = text.match(/\b(?:treatment|therapy|therapies|exposure|treated|received)\s+(?:with|to)\s+(?:an?\s+|any\s+)?([^.;:,()]+)/i) ||
+    text.match(/\b(?:prior|previous(?:ly)?)\s+(?:(?:systemic|line of|lines of|\d+|one|two|three)\s+)*(?!(?:lines?|regimens?|treatment|therapy)\b)([a-z0-9][\w\- ]*?)(?=\s*(?:$|[.;:,()]|\b(?:for|in|within|including|is|are|at|or)\b))/i);
+  const lines = text.match(/\b(\d+|one|two|three|four|five)\s+(?:or more\s+)?(?:prior\s+)?(?:lines?|regimens?)\b/i);
+  const therapy = named?.[1].trim();
+
+  if (!therapy && !lines) {
+    return [];
+  }
+  return [{
+    type: 'priorTherapy',
+    therapy: therapy || undefined,
+    lines: lines ? WORD_NUMBERS[lines[1].toLowerCase()] ?? Number(lines[1]) : undefined,
+    negated: /^\s*(?:no|without|never)\b|\b(?:no|not|never)\s+(?:have\s+)?(?:been\s+)?(?:prior|previous(?:ly)?|received|treated)\b/i.test(text)
+  }];
+}
+
+function parsePregnancy(text: string): StructuredCriterion[] {
+  const negativeTest = /negative\s+(?:serum\s+|urine\s+)?(?:(?:β|beta)-?hcg\s+)?pregnancy\s+test|pregnancy\s+test[^.;]*negative/i.test(text);
+  const contraception = /contracepti|birth control|abstinen/i.test(text);
+  const pregnant = !negativeTest && /\bpregnan(?:t|cy)\b/i.test(text);
+  const breastfeeding = /breast-?\s?feeding|lactat|nursing/i.test(text);
+  if (!negativeTest && !contraception && !pregnant && !breastfeeding) {
+    return [];
+  }
+  return [{ type: 'pregnancy', pregnant, breastfeeding, negativeTest, contraception }];
+}
+
+/**
+ * Structured items found in a single criterion.
+ */
+export function extractStructuredCriteria(text: string): StructuredCriterion[] {
+  return [
+    ...parseAge(text),
+    ...parsePerformanceStatus(text),
+    ...parseLabThresholds(text),
+    ...parsePriorTherapy(text),
+    ...parsePregnancy(text)
+  ];
+}
+
+interface Line {
+  indent: number;
+  bullet: boolean;
+  text: string;
+}
+
+function parseSection(lines: Line[]): EligibilityCriterion[] {
+  const criteria: EligibilityCriterion[] = [];
+  const hasBullets = lines.some(line => line.bullet);
+  const stack: Array<{ indent: number; criterion: EligibilityCriterion }> = [];
+
+  for (const line of lines) {
+    // Unbulleted lines continue the item above, unless the list has no bullets at all
+    if (!line.bullet && hasBullets && stack.length > 0) {
+      stack[stack.length - 1].criterion.text += ` ${line.text}`;
+      continue;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= line.indent) {
+      stack.pop();
+    }
+    const criterion: EligibilityCriterion = { text: line.text };
+    const parent = stack[stack.length - 1]?.criterion;
+    if (parent) {
+      (parent.children ||= []).push(criterion);
+    } else {
+      criteria.push(criterion);
+    }
+    stack.push({ indent: line.indent, criterion });
+  }
+
+  const annotate = (criterion: EligibilityCriterion) => {
+    const structured = extractStructuredCriteria(criterion.text);
+    if (structured.length > 0) {
+      criterion.structured = structured;
+    }
+    criterion.children?.forEach(annotate);
+  };
+  criteria.forEach(annotate);
+  return criteria;
+}
+
+/**
+ * Parse eligibility criteria text into inclusion and exclusion trees. Text
+ * before any heading counts as inclusion; nesting follows bullet indentation.
+ */
+export function parseEligibilityCriteria(text?: string): ParsedEligibilityCriteria {
+  const sections: Record<keyof ParsedEligibilityCriteria, Line[]> = { inclusion: [], exclusion: [] };
+  let current = sections.inclusion;
+
+  for (const raw of (text || '').split(/\r?\n/)) {
+    if (INCLUSION_HEADING.test(raw)) {
+      current = sections.inclusion;
+      continue;
+    }
+    if (EXCLUSION_HEADING.test(raw)) {
+      current = sections.exclusion;
+      continue;
+    }
+    if (!raw.trim()) {
+      continue;
+    }
+
+    const bullet = raw.match(BULLET);
+    current.push({
+      indent: bullet ? bullet[1].replace(/\t/g, '    ').length : raw.length - raw.trimStart().length,
+      bullet: Boolean(bullet),
+      text: raw.slice(bullet ? bullet[0].length : 0).trim()
+    });
+  }
+
+  return {
+    inclusion: parseSection(sections.inclusion),
+    exclusion: parseSection(sections.exclusion)
+  };
+}
+
+/**
+ * The criteria that carry their own requirement: items without sub-bullets,
+ * plus parents that state a structured requirement themselves.
+ */
+export function leafCriteria(criteria: EligibilityCriterion[]): EligibilityCriterion[] {
+  return criteria.flatMap(criterion => {
+    if (!criterion.children?.length) {
+      return [criterion];
+    }
+    return [...(criterion.structured ? [criterion] : []), ...leafCriteria(criterion.children)];
+  });
+}
+
+/**
+ * Convert an API age such as "18 Years" or "6 Months" into years.
+ */
+export function parseAgeInYears(age?: string): number | undefined {
+  const match = age?.match(/^\s*(\d+(?:\.\d+)?)\s*(year|month|week|day|hour|minute)s?/i);
+  if (!match) {
+    return undefined;
+  }
+  const value = Number(match[1]);
+  const perYear: Record<string, number> = { year: 1, month: 12, week: 52, day: 365, hour: 8760, minute: 525600 };
+  return value / perYear[match[2].toLowerCase()];
+}
@@ -0,0 +1,187 @@
+/**
+ * Study export writers
+ *
+ * Serializes study records as CSV, NDJSON, a Markdown table or an Excel
+ * workbook. Rows are written to a stream as they arrive so large exports
+ * never have to be held in memory.
+ */
+
+import ExcelJS from 'exceljs';
+import { Writable } from 'stream';
+
+export const EXPORT_FORMATS = {
+  csv: { mimeType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { mimeType: 'application/x-ndjson', extension: 'ndjson' },
+  markdown: { mimeType: 'text/markdown; charset=utf-8', extension: 'md' },
+  xlsx: { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' }
+};
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+/**
+ * A study as the tools present it: the search summary plus every section of
+ * the detailed view. Columns address summary fields by name ("sponsor") and
+ * detail fields by path ("status.primaryCompletionDate").
+ */
+export interface ExportRecord {
+  summary: Record<string, any>;
+  details: Record<string, any>;
+}
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'nctId',
+  'title',
+  'status',
+  'phase',
+  'studyType',
+  'sponsor',
+  'conditions',
+  'startDate',
+  'status.primaryCompletionDate',
+  'design.enrollment.count'
+];
+
+const LIST_SEPARATOR = '; ';
+
+/**
+ * Check that a column names a summary field or starts with a detail section.
+ */
+export function isValidColumn(column: string, summaryFields: string[], detailSections: string[]): boolean {
+  const [head, ...rest] = column.split('.');
+  return rest.length === 0 ? summaryFields.includes(head) : detailSections.includes(head) && rest.every(Boolean);
+}
+
+/**
+ * Resolve a column against a record. Paths step into arrays element-wise, so
+ * "armsInterventions.interventions.name" yields every intervention name.
+ */
+export function resolveColumn(record: ExportRecord, column: string): unknown {
+  const segments = column.split('.');
+  if (segments.length === 1) {
+    return record.summary[column];
+  }
+  return resolvePath(record.details, segments);
+}
+
+function resolvePath(value: any, segments: string[]): unknown {
+  if (segments.length === 0 || value === undefined || value === null) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      const resolved = resolvePath(item, segments);
+      return resolved === undefined ? [] : resolved;
+    });
+  }
+  return typeof value === 'object' ? resolvePath(value[segments[0]], segments.slice(1)) : undefined;
+}
+
+function toCellText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCellText).filter(Boolean).join(LIST_SEPARATOR);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render a complete Markdown table; cells are escaped like export rows.
+ */
+export function markdownTable(headers: string[], rows: unknown[][]): string {
+  return [
+    `| ${headers.map(markdownCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell => markdownCell(toCellText(cell))).join(' | ')} |`)
+  ].join('\n') + '\n';
+}
+
+/**
+ * Write one chunk, waiting for the stream to drain when its buffer is full.
+ * Rejects when the consumer goes away (e.g. an HTTP client disconnects).
+ */
+async function write(output: Writable, chunk: string) {
+  if (output.destroyed) {
+    throw new Error('Export output closed before all rows were written');
+  }
+  if (output.write(chunk)) {
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      output.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      output.off('drain', onDrain);
+      reject(new Error('Export output closed before all rows were written'));
+    };
+    output.once('drain', onDrain);
+    output.once('close', onClose);
+  });
+}
+
+/**
+ * Write records to `output` in the requested format and end the stream.
+ * Resolves to the number of rows written.
+ */
+export async function writeExport(
+  records: AsyncIterable<ExportRecord>,
+  format: ExportFormat,
+  columns: string[],
+  output: Writable
+): Promise<number> {
+  // Pull the first record before writing anything, so a failure on the first
+  // page surfaces before any output (and, over HTTP, before the headers)
+  const iterator = records[Symbol.asyncIterator]();
+  let next = await iterator.next();
+  let rowCount = 0;
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+    const worksheet = workbook.addWorksheet('Studies');
+    worksheet.addRow(columns).commit();
+    for (; !next.done; next = await iterator.next()) {
+      worksheet.addRow(columns.map(column => toCellText(resolveColumn(next.value, column)))).commit();
+      rowCount++;
+    }
+    worksheet.commit();
+    await workbook.commit();
+    return rowCount;
+  }
+
+  if (format === 'csv') {
+    await write(output, columns.map(csvField).join(',') + '\r\n');
+  } else if (format === 'markdown') {
+    await write(output, `| ${columns.map(markdownCell).join(' | ')} |\n| ${columns.map(() => '---').join(' | ')} |\n`);
+  }
+
+  for (; !next.done; next = await iterator.next()) {
+    const record = next.value;
+    if (format === 'ndjson') {
+      const row: Record<string, unknown> = {};
+      for (const column of columns) {
+        row[column] = resolveColumn(record, column) ?? null;
+      }
+      await write(output, JSON.stringify(row) + '\n');
+    } else {
+      const cells = columns.map(column => toCellText(resolveColumn(record, column)));
+      await write(output, format === 'csv'
+        ? cells.map(csvField).join(',') + '\r\n'
+        : `| ${cells.map(markdownCell).join(' | ')} |\n`);
+    }
+    rowCount++;
+  }
+
+  output.end();
+  return rowCount;
+}
@@ -0,0 +1,174 @@
+/**
+ * Offline geocoding and distances
+ *
+ * Resolves city names and postal codes to coordinates with bundled
+ * gazetteers (GeoNames cities with 1,000+ inhabitants, US ZIP and Canadian
+ * postal codes) so radius searches never call an external geocoder, and
+ * builds and evaluates the API's `filter.geo` distance expressions.
+ */
+
+import zipcodes from 'zipcodes';
+import type { City } from 'all-the-cities';
+import { StudyLocation } from './types/study.js';
+
+export type DistanceUnit = 'mi' | 'km';
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface PlaceQuery {
+  city?: string;
+  state?: string;
+  country?: string;
+  zip?: string;
+}
+
+export interface ResolvedPlace extends GeoPoint {
+  name: string;
+  source: 'postalCode' | 'city';
+}
+
+export interface GeoFilter extends GeoPoint {
+  distance: number;
+  unit: DistanceUnit;
+}
+
+const EARTH_RADIUS: Record<DistanceUnit, number> = { mi: 3958.8, km: 6371 };
+
+// Country spellings used by ClinicalTrials.gov that differ from the English region names
+const COUNTRY_ALIASES: Record<string, string> = {
+  'usa': 'US',
+  'united states of america': 'US',
+  'uk': 'GB',
+  'great britain': 'GB',
+  'england': 'GB',
+  'korea, republic of': 'KR',
+  'russian federation': 'RU',
+  'czech republic': 'CZ',
+  'iran, islamic republic of': 'IR',
+  'taiwan': 'TW'
+};
+
+const foldText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+let cities: City[] | null = null;
+let countryCodes: Map<string, string> | null = null;
+
+// The city list is large, so it is only loaded the first time a city is looked up
+async function loadCities(): Promise<City[]> {
+  if (!cities) {
+    cities = (await import('all-the-cities')).default;
+  }
+  return cities;
+}
+
+function countryCode(country: string, known: City[]): string | undefined {
+  if (!countryCodes) {
+    const names = new Intl.DisplayNames(['en'], { type: 'region' });
+    countryCodes = new Map(Object.entries(COUNTRY_ALIASES));
+    for (const code of new Set(known.map(city => city.country))) {
+      countryCodes.set(code.toLowerCase(), code);
+      const name = names.of(code);
+      if (name) {
+        countryCodes.set(foldText(name), code);
+      }
+    }
+  }
+  return countryCodes.get(foldText(country));
+}
+
+/**
+ * Resolve a ZIP/postal code or a city (optionally narrowed by state and
+ * country) to coordinates. Ambiguous city names resolve to the most
+ * populous match. Resolves to undefined when the gazetteer has no match.
+ */
+export async function resolvePlace(query: PlaceQuery): Promise<ResolvedPlace | undefined> {
+  if (query.zip) {
+    const postal = zipcodes.lookup(query.zip.trim().toUpperCase());
+    return postal && {
+      lat: postal.latitude,
+      lon: postal.longitude,
+      name: `${postal.zip} ${postal.city}, ${postal.state}, ${postal.country}`,
+      source: 'postalCode'
+    };
+  }
+  if (!query.city) {
+    return undefined;
+  }
+
+  const all = await loadCities();
+  const wanted = foldText(query.city);
+  let candidates = all.filter(city =>
+    foldText(city.name) === wanted || (city.altName && city.altName.split(',').some(name => foldText(name) === wanted)));
+
+  if (query.country) {
+    const code = countryCode(query.country, all);
+    candidates = candidates.filter(city => city.country === code);
+  }
+  if (query.state) {
+    // GeoNames admin codes are state abbreviations for the US only
+    const state = zipcodes.states.normalize(query.state.trim().toUpperCase());
+    candidates = candidates.filter(city => city.country !== 'US' || city.adminCode === state);
+  }
+
+  const best = candidates.sort((a, b) => b.population - a.population)[0];
+  return best && {
+    lat: best.loc.coordinates[1],
+    lon: best.loc.coordinates[0],
+    name: [best.name, best.country === 'US' ? best.adminCode : undefined, best.country].filter(Boolean).join(', '),
+    source: 'city'
+  };
+}
+
+/**
+ * Great-circle distance between two points.
+ */
+export function distanceBetween(a: GeoPoint, b: GeoPoint, unit: DistanceUnit = 'mi'): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS[unit] * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * The study site closest to `center`, ignoring sites without coordinates.
+ */
+export function nearestLocation(locations: StudyLocation[], center: GeoPoint, unit: DistanceUnit = 'mi') {
+  let nearest: { location: StudyLocation; distance: number } | undefined;
+  for (const location of locations) {
+    if (!location.geoPoint) {
+      continue;
+    }
+    const distance = distanceBetween(center, location.geoPoint, unit);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { location, distance };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Format a `filter.geo` value, e.g. "distance(39.7392,-104.9847,50mi)".
+ */
+export function formatGeoFilter(filter: GeoFilter): string {
+  return `distance(${filter.lat},${filter.lon},${filter.distance}${filter.unit})`;
+}
+
+/**
+ * Parse a `filter.geo` value; the unit defaults to miles like the API's.
+ */
+export function parseGeoFilter(value: string): GeoFilter | undefined {
+  const match = value.match(/^distance\(\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)\s*(mi|km)?\s*\)$/i);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    lat: Number(match[1]),
+    lon: Number(match[2]),
+    distance: Number(match[3]),
+    unit: (match[4]?.toLowerCase() as DistanceUnit) || 'mi'
+  };
+}
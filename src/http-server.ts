@@ -8,7 +8,8 @@
 import express from 'express';
 import cors from 'cors';
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { ClinicalTrialsServer } from './index.js';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ClinicalTrialsServer, isMainModule } from './index.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 const app = express();
@@ -36,7 +37,8 @@ app.get('/health', (req, res) => {
     status: 'healthy', 
     service: 'Clinical Trials MCP Server',
     version: '0.1.0',
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    cache: mcpServer.getCacheStats()
   });
 });
 
@@ -56,6 +58,30 @@ app.get('/tools', (req, res) => {
         endpoint: '/api/get_study_details',
         method: 'POST'
       },
+      {
+        name: 'get_studies_batch',
+        description: 'Get detailed information about many clinical trials by NCT ID in one call',
+        endpoint: '/api/get_studies_batch',
+        method: 'POST'
+      },
+      {
+        name: 'get_study_results',
+        description: 'Get posted results for a clinical trial by NCT ID',
+        endpoint: '/api/get_study_results',
+        method: 'POST'
+      },
+      {
+        name: 'get_study_history',
+        description: 'List the versions of a study record by NCT ID',
+        endpoint: '/api/get_study_history',
+        method: 'POST'
+      },
+      {
+        name: 'diff_study_versions',
+        description: 'Field-level diff between two versions of a study record',
+        endpoint: '/api/diff_study_versions',
+        method: 'POST'
+      },
       {
         name: 'search_by_location',
         description: 'Find clinical trials by geographic location',
@@ -74,6 +100,18 @@ app.get('/tools', (req, res) => {
         endpoint: '/api/get_trial_statistics',
         method: 'POST'
       },
+      {
+        name: 'get_trial_trends',
+        description: 'Trial counts per start, first-posted or completion year with year-over-year change',
+        endpoint: '/api/get_trial_trends',
+        method: 'POST'
+      },
+      {
+        name: 'get_competitive_landscape',
+        description: 'Sponsor × intervention matrix for an indication with highest phase and trial counts',
+        endpoint: '/api/get_competitive_landscape',
+        method: 'POST'
+      },
       {
         name: 'search_by_sponsor',
         description: 'Search clinical trials by sponsor or organization',
@@ -104,12 +142,24 @@ app.get('/tools', (req, res) => {
         endpoint: '/api/get_studies_with_results',
         method: 'POST'
       },
+      {
+        name: 'compare_adverse_events',
+        description: 'Compare adverse events between arms of one or more completed trials',
+        endpoint: '/api/compare_adverse_events',
+        method: 'POST'
+      },
       {
         name: 'search_rare_diseases',
         description: 'Search clinical trials for rare diseases and orphan conditions',
         endpoint: '/api/search_rare_diseases',
         method: 'POST'
       },
+      {
+        name: 'list_rare_diseases_with_trials',
+        description: 'Browse the rare disease catalog with trial counts per disease',
+        endpoint: '/api/list_rare_diseases_with_trials',
+        method: 'POST'
+      },
       {
         name: 'get_pediatric_studies',
         description: 'Find clinical trials specifically designed for children and adolescents',
@@ -145,15 +195,68 @@ app.get('/tools', (req, res) => {
         description: 'Find multi-country international clinical trials',
         endpoint: '/api/search_international_studies',
         method: 'POST'
+      },
+      {
+        name: 'parse_eligibility',
+        description: 'Parse eligibility criteria into structured inclusion and exclusion items',
+        endpoint: '/api/parse_eligibility',
+        method: 'POST'
+      },
+      {
+        name: 'match_patient_to_trials',
+        description: 'Rank recruiting trials for a patient profile with per-criterion explanations',
+        endpoint: '/api/match_patient_to_trials',
+        method: 'POST'
+      },
+      {
+        name: 'export_studies',
+        description: 'Download every study matching the search criteria as CSV, NDJSON, Markdown or Excel',
+        endpoint: '/api/export_studies',
+        method: 'POST'
+      },
+      {
+        name: 'get_cache_stats',
+        description: 'Get hit/miss statistics for the ClinicalTrials.gov response cache',
+        endpoint: '/api/get_cache_stats',
+        method: 'POST'
+      },
+      {
+        name: 'watch_study',
+        description: 'Add a study to the watchlist for change detection',
+        endpoint: '/api/watch_study',
+        method: 'POST'
+      },
+      {
+        name: 'unwatch_study',
+        description: 'Remove a study from the watchlist',
+        endpoint: '/api/unwatch_study',
+        method: 'POST'
+      },
+      {
+        name: 'list_watched',
+        description: 'List watched studies',
+        endpoint: '/api/list_watched',
+        method: 'POST'
+      },
+      {
+        name: 'get_watchlist_changes',
+        description: 'Get the field-level changes detected in watched studies',
+        endpoint: '/api/get_watchlist_changes',
+        method: 'POST'
       }
     ]
   });
 });
 
+// Invalid arguments are the client's fault; anything else is ours
+function httpStatus(error: unknown): number {
+  return error instanceof McpError && error.code === ErrorCode.InvalidParams ? 400 : 500;
+}
+
 // Generic tool handler
 async function handleToolCall(toolName: string, args: any, res: express.Response) {
   try {
-    let result;
+    let result: { content: Array<{ type: string; text: string }>; structuredContent?: Record<string, any>; isError?: boolean };
     
     switch (toolName) {
       case 'search_studies':
@@ -162,6 +265,18 @@ async function handleToolCall(toolName: string, args: any, res: express.Response
       case 'get_study_details':
         result = await mcpServer.handleGetStudyDetails(args);
         break;
+      case 'get_studies_batch':
+        result = await mcpServer.handleGetStudiesBatch(args);
+        break;
+      case 'get_study_results':
+        result = await mcpServer.handleGetStudyResults(args);
+        break;
+      case 'get_study_history':
+        result = await mcpServer.handleGetStudyHistory(args);
+        break;
+      case 'diff_study_versions':
+        result = await mcpServer.handleDiffStudyVersions(args);
+        break;
       case 'search_by_location':
         result = await mcpServer.handleSearchByLocation(args);
         break;
@@ -171,6 +286,12 @@ async function handleToolCall(toolName: string, args: any, res: express.Response
       case 'get_trial_statistics':
         result = await mcpServer.handleGetTrialStatistics(args);
         break;
+      case 'get_trial_trends':
+        result = await mcpServer.handleGetTrialTrends(args);
+        break;
+      case 'get_competitive_landscape':
+        result = await mcpServer.handleGetCompetitiveLandscape(args);
+        break;
       case 'search_by_sponsor':
         result = await mcpServer.handleSearchBySponsor(args);
         break;
@@ -186,9 +307,15 @@ async function handleToolCall(toolName: string, args: any, res: express.Response
       case 'get_studies_with_results':
         result = await mcpServer.handleGetStudiesWithResults(args);
         break;
+      case 'compare_adverse_events':
+        result = await mcpServer.handleCompareAdverseEvents(args);
+        break;
       case 'search_rare_diseases':
         result = await mcpServer.handleSearchRareDiseases(args);
         break;
+      case 'list_rare_diseases_with_trials':
+        result = await mcpServer.handleListRareDiseasesWithTrials(args);
+        break;
       case 'get_pediatric_studies':
         result = await mcpServer.handleGetPediatricStudies(args);
         break;
@@ -207,30 +334,54 @@ async function handleToolCall(toolName: string, args: any, res: express.Response
       case 'search_international_studies':
         result = await mcpServer.handleSearchInternationalStudies(args);
         break;
+      case 'parse_eligibility':
+        result = await mcpServer.handleParseEligibility(args);
+        break;
+      case 'match_patient_to_trials':
+        result = await mcpServer.handleMatchPatientToTrials(args);
+        break;
+      case 'export_studies':
+        result = await mcpServer.handleExportStudies(args);
+        break;
+      case 'get_cache_stats':
+        result = await mcpServer.handleGetCacheStats(args);
+        break;
+      case 'watch_study':
+        result = await mcpServer.handleWatchStudy(args);
+        break;
+      case 'unwatch_study':
+        result = await mcpServer.handleUnwatchStudy(args);
+        break;
+      case 'list_watched':
+        result = await mcpServer.handleListWatched(args);
+        break;
+      case 'get_watchlist_changes':
+        result = await mcpServer.handleGetWatchlistChanges(args);
+        break;
       default:
         return res.status(404).json({ error: `Unknown tool: ${toolName}` });
     }
 
-    // Parse the MCP response format
-    if (result.content && result.content[0] && result.content[0].text) {
-      const data = JSON.parse(result.content[0].text);
-      res.json({
-        success: true,
-        tool: toolName,
-        data: data,
-        isError: result.isError || false
-      });
-    } else {
+    // Tool errors carry only a message in their text block
+    if (result.isError || !result.structuredContent) {
       res.json({
-        success: true,
+        success: false,
         tool: toolName,
-        data: result,
-        isError: result.isError || false
+        error: result.content?.[0]?.text || 'Unknown error occurred',
+        isError: true
       });
+      return;
     }
+
+    res.json({
+      success: true,
+      tool: toolName,
+      data: result.structuredContent,
+      isError: false
+    });
   } catch (error) {
     console.error(`Error in ${toolName}:`, error);
-    res.status(500).json({
+    res.status(httpStatus(error)).json({
       success: false,
       tool: toolName,
       error: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -247,6 +398,22 @@ app.post('/api/get_study_details', (req, res) => {
   handleToolCall('get_study_details', req.body, res);
 });
 
+app.post('/api/get_studies_batch', (req, res) => {
+  handleToolCall('get_studies_batch', req.body, res);
+});
+
+app.post('/api/get_study_results', (req, res) => {
+  handleToolCall('get_study_results', req.body, res);
+});
+
+app.post('/api/get_study_history', (req, res) => {
+  handleToolCall('get_study_history', req.body, res);
+});
+
+app.post('/api/diff_study_versions', (req, res) => {
+  handleToolCall('diff_study_versions', req.body, res);
+});
+
 app.post('/api/search_by_location', (req, res) => {
   handleToolCall('search_by_location', req.body, res);
 });
@@ -259,6 +426,14 @@ app.post('/api/get_trial_statistics', (req, res) => {
   handleToolCall('get_trial_statistics', req.body, res);
 });
 
+app.post('/api/get_trial_trends', (req, res) => {
+  handleToolCall('get_trial_trends', req.body, res);
+});
+
+app.post('/api/get_competitive_landscape', (req, res) => {
+  handleToolCall('get_competitive_landscape', req.body, res);
+});
+
 app.post('/api/search_by_sponsor', (req, res) => {
   handleToolCall('search_by_sponsor', req.body, res);
 });
@@ -279,10 +454,18 @@ app.post('/api/get_studies_with_results', (req, res) => {
   handleToolCall('get_studies_with_results', req.body, res);
 });
 
+app.post('/api/compare_adverse_events', (req, res) => {
+  handleToolCall('compare_adverse_events', req.body, res);
+});
+
 app.post('/api/search_rare_diseases', (req, res) => {
   handleToolCall('search_rare_diseases', req.body, res);
 });
 
+app.post('/api/list_rare_diseases_with_trials', (req, res) => {
+  handleToolCall('list_rare_diseases_with_trials', req.body, res);
+});
+
 app.post('/api/get_pediatric_studies', (req, res) => {
   handleToolCall('get_pediatric_studies', req.body, res);
 });
@@ -307,6 +490,68 @@ app.post('/api/search_international_studies', (req, res) => {
   handleToolCall('search_international_studies', req.body, res);
 });
 
+app.post('/api/parse_eligibility', (req, res) => {
+  handleToolCall('parse_eligibility', req.body, res);
+});
+
+app.post('/api/match_patient_to_trials', (req, res) => {
+  handleToolCall('match_patient_to_trials', req.body, res);
+});
+
+// Exports are streamed as a file download instead of being wrapped in JSON
+app.post('/api/export_studies', async (req, res) => {
+  let options;
+  try {
+    options = mcpServer.resolveExportOptions(req.body);
+  } catch (error) {
+    res.status(httpStatus(error)).json({
+      success: false,
+      tool: 'export_studies',
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+    return;
+  }
+
+  res.setHeader('Content-Type', options.mimeType);
+  res.setHeader('Content-Disposition', `attachment; filename="${options.fileName}"`);
+  try {
+    await mcpServer.exportStudies(req.body, res);
+  } catch (error) {
+    console.error('Error in export_studies:', error);
+    if (!res.headersSent) {
+      res.removeHeader('Content-Disposition');
+      res.status(502).json({
+        success: false,
+        tool: 'export_studies',
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    } else {
+      // Part of the file is already on the wire; abort so the client sees a failed download
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+});
+
+app.post('/api/get_cache_stats', (req, res) => {
+  handleToolCall('get_cache_stats', req.body, res);
+});
+
+app.post('/api/watch_study', (req, res) => {
+  handleToolCall('watch_study', req.body, res);
+});
+
+app.post('/api/unwatch_study', (req, res) => {
+  handleToolCall('unwatch_study', req.body, res);
+});
+
+app.post('/api/list_watched', (req, res) => {
+  handleToolCall('list_watched', req.body, res);
+});
+
+app.post('/api/get_watchlist_changes', (req, res) => {
+  handleToolCall('get_watchlist_changes', req.body, res);
+});
+
 app.post('/', async (req, res) => {
   try {
     await transport.handleRequest(req, res, req.body);
@@ -401,12 +646,14 @@ app.use((req, res) => {
   });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`Clinical Trials MCP Server running on port ${PORT}`);
-  console.log(`Health check: http://localhost:${PORT}/health`);
-  console.log(`Available tools: http://localhost:${PORT}/tools`);
-  console.log(`API documentation: http://localhost:${PORT}/`);
-});
+// Start server (skipped when imported, e.g. by the test suite)
+if (isMainModule(import.meta.url)) {
+  app.listen(PORT, () => {
+    console.log(`Clinical Trials MCP Server running on port ${PORT}`);
+    console.log(`Health check: http://localhost:${PORT}/health`);
+    console.log(`Available tools: http://localhost:${PORT}/tools`);
+    console.log(`API documentation: http://localhost:${PORT}/`);
+  });
+}
 
 export default app;
@@ -13,77 +13,679 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios, { AxiosResponse } from "axios";
-
-// Base URL for Clinical Trials API
-const API_BASE_URL = 'https://clinicaltrials.gov/api/v2';
-
-// Interfaces for API responses
-interface StudySearchResponse {
-  studies: Study[];
-  totalCount: number;
-  nextPageToken?: string;
-}
-
-interface Study {
-  protocolSection: {
-    identificationModule: {
-      nctId: string;
-      briefTitle: string;
-      officialTitle?: string;
-    };
-    statusModule: {
-      overallStatus: string;
-      startDateStruct?: {
-        date: string;
-        type: string;
-      };
-      primaryCompletionDateStruct?: {
-        date: string;
-        type: string;
-      };
-    };
-    sponsorCollaboratorsModule?: {
-      leadSponsor: {
-        name: string;
-        class: string;
-      };
-    };
-    conditionsModule?: {
-      conditions: string[];
-    };
-    designModule?: {
-      phases?: string[];
-      studyType: string;
-    };
-    contactsLocationsModule?: {
-      locations?: Array<{
-        facility: string;
-        city: string;
-        state?: string;
-        country: string;
-      }>;
-    };
-    eligibilityModule?: {
-      eligibilityCriteria: string;
-      healthyVolunteers: boolean;
-      sex: string;
-      minimumAge?: string;
-      maximumAge?: string;
-    };
+import axios, { AxiosError } from "axios";
+import { realpathSync } from "fs";
+import { fileURLToPath } from "url";
+import { Writable } from "stream";
+import { CacheEndpoint, ResponseCache } from "./cache.js";
+import { ConditionExpansion, expandCondition } from "./conditions.js";
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_FORMATS, ExportFormat, ExportRecord, isValidColumn, writeExport } from "./export.js";
+import { CompetitiveLandscape, landscapeMarkdown } from "./landscape.js";
+import { parseEligibilityCriteria } from "./eligibility.js";
+import { DistanceUnit, formatGeoFilter, GeoPoint, nearestLocation, resolvePlace } from "./geo.js";
+import { matchPatientToStudy, PatientProfile } from "./matching.js";
+import { PROMPTS } from "./prompts.js";
+import { diffRecords, summarizeStudyChanges } from "./record-diff.js";
+import { loadSponsorAliasFile, normalizeSponsor, sponsorAliasQuery, sponsorGroup } from "./sponsors.js";
+import { findRareDisease, matchRareDiseases, PREVALENCE_CLASSES, RARE_DISEASE_GROUPS, RARE_DISEASES, rareDiseaseQuery, RareDisease } from "./rare-diseases.js";
+import { DEFAULT_SIMILARITY_WEIGHTS, SIMILARITY_FACTORS, SimilarityScorer } from "./similarity.js";
+import { STATISTICS_FIELDS, StatisticsField, StudyTally, TREND_DATE_FIELDS, TrendDateField, TrendTally } from "./statistics.js";
+import { attachResilience, CIRCUIT_OPEN_CODE, ResilienceOptions, retryAttempts } from "./resilience.js";
+import { ApiStudySource, FixtureStudySource, StudySource } from "./study-source.js";
+import { Watchlist } from "./watchlist.js";
+import {
+  AdverseEvent,
+  AdverseEventComparison,
+  AdverseEventRaw,
+  AdverseEventResults,
+  ArmCount,
+  ResultCategory,
+  ResultClassRaw,
+  ResultCountsRaw,
+  ResultGroupRaw,
+  Study,
+  StudyResults,
+  StudyResultsSection,
+  StudySearchResponse,
+  StudyVersion,
+} from "./types/study.js";
+
+// Clinical Trials API client settings, overridable through the environment
+const API_BASE_URL = process.env.API_BASE_URL || 'https://clinicaltrials.gov/api/v2';
+const API_TIMEOUT_MS = Number(process.env.API_TIMEOUT_MS ?? 30000);
+const API_USER_AGENT = process.env.API_USER_AGENT || 'ClinicalTrials-MCP-Server/0.1.0';
+// Record history is served next to the v2 API, under /api/int
+const API_HISTORY_BASE_URL = process.env.API_HISTORY_BASE_URL || API_BASE_URL.replace(/\/v2\/?$/, '/int');
+
+// Where studies come from: the live API, or a directory of v2 JSON records
+const STUDY_SOURCE = process.env.STUDY_SOURCE || 'api';
+const STUDY_FIXTURES_DIR = process.env.STUDY_FIXTURES_DIR;
+
+// Largest page the API will serve, and the cap for server-side page walking
+const MAX_PAGE_SIZE = 100;
+const MAX_RESULTS_CAP = 1000;
+
+// Sections that get_study_details can return
+const STUDY_DETAIL_SECTIONS = [
+  'identification',
+  'status',
+  'design',
+  'sponsor',
+  'conditions',
+  'description',
+  'armsInterventions',
+  'outcomes',
+  'eligibility',
+  'contacts',
+  'locations',
+  'references',
+  'oversight',
+  'ipdSharing'
+];
+
+// Parts of the resultsSection that get_study_results can return
+const STUDY_RESULT_SECTIONS = [
+  'participantFlow',
+  'baselineCharacteristics',
+  'outcomeMeasures',
+  'adverseEvents'
+];
+
+// Radius used by search_by_location when a center is given without a distance
+const DEFAULT_SEARCH_RADIUS = 50;
+
+// Arm titles treated as the comparator when no reference arm is given
+const REFERENCE_ARM_PATTERN = /placebo|control|standard of care|vehicle|sham/i;
+
+// Upper bound on NCT IDs accepted by multi-study tools
+const MAX_COMPARED_STUDIES = 20;
+
+// Study resources: clinicaltrials://study/{nctId}[/results|/locations]
+const STUDY_RESOURCE_PATTERN = /^clinicaltrials:\/\/study\/(NCT\d{8})(?:\/(results|locations))?$/;
+const MAX_RECENT_STUDIES = 50;
+
+// Recruiting studies scored per match_patient_to_trials call
+const DEFAULT_MATCH_CANDIDATES = 50;
+const MAX_MATCH_CANDIDATES = 200;
+
+// Statistics page through every matching study up to this many; the API
+// allows larger pages when only a few fields are requested
+const STATISTICS_MAX_STUDIES = Number(process.env.STATISTICS_MAX_STUDIES ?? 50000);
+const STATISTICS_PAGE_SIZE = 1000;
+
+// NCT IDs accepted by one get_studies_batch call; they are fetched MAX_PAGE_SIZE at a time
+const MAX_BATCH_IDS = 500;
+
+// Candidates fetched per dimension (conditions, interventions) for multi-factor similarity
+const DEFAULT_SIMILARITY_CANDIDATES = 100;
+const MAX_SIMILARITY_CANDIDATES = 500;
+
+// Rows returned by get_competitive_landscape unless the caller asks for more
+const DEFAULT_LANDSCAPE_ROWS = 50;
+const MAX_LANDSCAPE_ROWS = 500;
+
+// Study exports walk every matching page up to this many rows
+const EXPORT_MAX_ROWS = Number(process.env.EXPORT_MAX_ROWS ?? 10000);
+
+// Watched studies are re-checked on this interval (0 disables polling);
+// set WATCHLIST_FILE to keep the watchlist across restarts
+const WATCHLIST_POLL_INTERVAL_SECONDS = Number(process.env.WATCHLIST_POLL_INTERVAL_SECONDS ?? 3600);
+const MAX_WATCHLIST_CHANGES = 500;
+
+// JSON file of extra sponsor alias groups merged into the bundled table
+const SPONSOR_ALIASES_FILE = process.env.SPONSOR_ALIASES_FILE;
+
+// Response cache defaults, overridable through the environment
+const CACHE_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES ?? 500);
+const CACHE_STUDY_TTL_SECONDS = Number(process.env.CACHE_STUDY_TTL_SECONDS ?? 3600);
+const CACHE_SEARCH_TTL_SECONDS = Number(process.env.CACHE_SEARCH_TTL_SECONDS ?? 300);
+
+// Retry, rate-limit and circuit breaker defaults, overridable through the environment
+const RESILIENCE_OPTIONS: ResilienceOptions = {
+  maxRetries: Number(process.env.API_MAX_RETRIES ?? 3),
+  baseDelayMs: Number(process.env.API_RETRY_BASE_DELAY_MS ?? 500),
+  maxDelayMs: Number(process.env.API_RETRY_MAX_DELAY_MS ?? 10000),
+  requestsPerSecond: Number(process.env.API_RATE_LIMIT_RPS ?? 5),
+  burst: Number(process.env.API_RATE_LIMIT_BURST ?? 5),
+  failureThreshold: Number(process.env.API_CIRCUIT_FAILURE_THRESHOLD ?? 5),
+  resetTimeoutMs: Number(process.env.API_CIRCUIT_RESET_MS ?? 30000)
+};
+
+// Cache bypass argument shared by every tool
+const CACHE_PROPERTIES = {
+  noCache: {
+    type: 'boolean',
+    description: 'Bypass the response cache and fetch fresh data from ClinicalTrials.gov',
+    default: false
+  }
+};
+
+// Search criteria shared by search_studies and export_studies
+const SEARCH_CRITERIA_PROPERTIES = {
+  query: {
+    type: 'string',
+    description: 'General search term (condition, intervention, etc.)'
+  },
+  condition: {
+    type: 'string',
+    description: 'Medical condition or disease'
+  },
+  intervention: {
+    type: 'string',
+    description: 'Treatment, drug, or intervention'
+  },
+  location: {
+    type: 'string',
+    description: 'Geographic location (city, state, country)'
+  },
+  phase: {
+    type: 'string',
+    description: 'Study phase (PHASE1, PHASE2, PHASE3, PHASE4, NA)',
+    enum: ['PHASE1', 'PHASE2', 'PHASE3', 'PHASE4', 'NA']
+  },
+  status: {
+    type: 'string',
+    description: 'Recruitment status',
+    enum: ['RECRUITING', 'NOT_YET_RECRUITING', 'COMPLETED', 'TERMINATED', 'SUSPENDED', 'WITHDRAWN']
+  },
+  sex: {
+    type: 'string',
+    description: 'Sex eligibility',
+    enum: ['ALL', 'FEMALE', 'MALE']
+  },
+  age: {
+    type: 'string',
+    description: 'Age group',
+    enum: ['CHILD', 'ADULT', 'OLDER_ADULT']
+  }
+};
+
+// Filters shared by get_trial_statistics and get_trial_trends
+const STATISTICS_FILTERS_PROPERTY = {
+  type: 'object',
+  description: 'Optional filters to apply',
+  properties: {
+    condition: { type: 'string' },
+    phase: { type: 'string' },
+    status: { type: 'string' }
+  }
+};
+
+// Synonym expansion arguments shared by the condition searches
+const CONDITION_EXPANSION_PROPERTIES = {
+  expandSynonyms: {
+    type: 'boolean',
+    description: 'Also search the synonyms of the condition from the bundled vocabulary (e.g. "heart attack" adds "Myocardial Infarction"). Off by default: the condition is searched as typed',
+    default: false
+  },
+  includeNarrower: {
+    type: 'boolean',
+    description: 'Also search narrower conditions (e.g. "diabetes" adds type 1 and type 2 diabetes)',
+    default: false
+  }
+};
+
+// Pagination arguments shared by every search tool
+const PAGINATION_PROPERTIES = {
+  pageToken: {
+    type: 'string',
+    description: 'Token from a previous response (nextPageToken) to fetch the following page'
+  },
+  maxResults: {
+    type: 'number',
+    description: `Walk pages server-side and return up to this many studies in one call (max ${MAX_RESULTS_CAP}); overrides pageSize`,
+    minimum: 1,
+    maximum: MAX_RESULTS_CAP
+  }
+};
+
+// Output schemas: every tool returns structuredContent matching one of these
+const STUDY_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    nctId: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'string' },
+    phase: { type: 'array', items: { type: 'string' } },
+    studyType: { type: 'string' },
+    sponsor: { type: 'string' },
+    conditions: { type: 'array', items: { type: 'string' } },
+    startDate: { type: 'string' }
+  },
+  required: ['nctId', 'title', 'status']
+};
+
+function searchOutputSchema(listKey = 'studies', extraProperties: Record<string, object> = {}) {
+  return {
+    type: 'object' as const,
+    properties: {
+      searchCriteria: { type: 'object' },
+      totalCount: { type: 'number' },
+      resultsShown: { type: 'number' },
+      nextPageToken: { type: 'string' },
+      [listKey]: { type: 'array', items: STUDY_SUMMARY_SCHEMA },
+      ...extraProperties
+    },
+    required: ['totalCount', 'resultsShown', listKey]
   };
 }
 
-interface StudyDetailResponse {
-  studies: Study[];
-}
+const SEARCH_OUTPUT_SCHEMA = searchOutputSchema();
+
+const STUDY_DETAILS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    identification: { type: 'object' },
+    status: { type: 'object' },
+    design: { type: 'object' },
+    sponsor: { type: 'object' },
+    conditions: { type: 'object' },
+    description: { type: 'object' },
+    armsInterventions: { type: 'object' },
+    outcomes: { type: 'object' },
+    eligibility: { type: 'object' },
+    contacts: { type: 'object' },
+    locations: { type: 'array', items: { type: 'object' } },
+    references: { type: 'object' },
+    oversight: { type: 'object' },
+    ipdSharing: { type: 'object' }
+  }
+};
+
+const STUDIES_BATCH_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    requested: { type: 'number' },
+    found: { type: 'number' },
+    studies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { nctId: { type: 'string' }, ...STUDY_DETAILS_OUTPUT_SCHEMA.properties },
+        required: ['nctId']
+      }
+    },
+    notFound: { type: 'array', items: { type: 'string' } },
+    invalidIds: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['requested', 'found', 'studies', 'notFound', 'invalidIds']
+};
+
+const STUDY_RESULTS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    nctId: { type: 'string' },
+    title: { type: 'string' },
+    resultsFirstPosted: { type: 'string' },
+    participantFlow: { type: 'object' },
+    baselineCharacteristics: { type: 'object' },
+    outcomeMeasures: { type: 'array', items: { type: 'object' } },
+    adverseEvents: { type: 'object' }
+  },
+  required: ['nctId', 'title']
+};
+
+const STUDY_VERSION_SCHEMA = {
+  type: 'object',
+  properties: {
+    version: { type: 'number' },
+    date: { type: 'string' },
+    status: { type: 'string' },
+    moduleLabels: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['version', 'date']
+};
+
+const STUDY_HISTORY_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    nctId: { type: 'string' },
+    versionCount: { type: 'number' },
+    versions: { type: 'array', items: STUDY_VERSION_SCHEMA }
+  },
+  required: ['nctId', 'versionCount', 'versions']
+};
+
+const FIELD_CHANGES_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      field: { type: 'string' },
+      before: {},
+      after: {},
+      added: { type: 'array' },
+      removed: { type: 'array' }
+    },
+    required: ['field']
+  }
+};
+
+const STUDY_DIFF_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    nctId: { type: 'string' },
+    title: { type: 'string' },
+    fromVersion: STUDY_VERSION_SCHEMA,
+    toVersion: STUDY_VERSION_SCHEMA,
+    summary: { type: 'array', items: { type: 'string' } },
+    changedModules: { type: 'array', items: { type: 'string' } },
+    changeCount: { type: 'number' },
+    changes: FIELD_CHANGES_SCHEMA
+  },
+  required: ['nctId', 'fromVersion', 'toVersion', 'summary', 'changedModules', 'changeCount', 'changes']
+};
+
+const TRIAL_STATISTICS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    totalStudies: { type: 'number' },
+    analyzedStudies: { type: 'number' },
+    complete: { type: 'boolean', description: 'Whether every matching study was counted' },
+    groupBy: { type: 'string' },
+    crossBy: { type: 'string' },
+    filters: { type: 'object' },
+    statistics: { type: 'object' }
+  },
+  required: ['totalStudies', 'analyzedStudies', 'complete', 'statistics']
+};
+
+const TREND_SERIES_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      year: { type: 'number' },
+      count: { type: 'number' },
+      change: { type: ['number', 'null'] },
+      changePercent: { type: ['number', 'null'] }
+    },
+    required: ['year', 'count', 'change', 'changePercent']
+  }
+};
+
+const TRIAL_TRENDS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    dateField: { type: 'string' },
+    splitBy: { type: 'string' },
+    filters: { type: 'object' },
+    totalStudies: { type: 'number' },
+    analyzedStudies: { type: 'number' },
+    complete: { type: 'boolean', description: 'Whether every matching study was counted' },
+    undatedStudies: { type: 'number' },
+    outOfRangeStudies: { type: 'number' },
+    series: TREND_SERIES_SCHEMA,
+    splits: { type: 'object', additionalProperties: TREND_SERIES_SCHEMA }
+  },
+  required: ['dateField', 'totalStudies', 'analyzedStudies', 'complete', 'series']
+};
+
+const RARE_DISEASE_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    orphaCode: { type: 'string' },
+    synonyms: { type: 'array', items: { type: 'string' } },
+    prevalence: { type: 'string' },
+    group: { type: 'string' }
+  },
+  required: ['name', 'orphaCode', 'prevalence']
+};
+
+const RARE_DISEASE_LIST_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    filters: { type: 'object' },
+    diseasesChecked: { type: 'number' },
+    diseasesWithTrials: { type: 'number' },
+    diseases: {
+      type: 'array',
+      items: {
+        ...RARE_DISEASE_SCHEMA,
+        properties: { ...RARE_DISEASE_SCHEMA.properties, trialCount: { type: 'number' } },
+        required: [...RARE_DISEASE_SCHEMA.required, 'trialCount']
+      }
+    }
+  },
+  required: ['diseasesChecked', 'diseasesWithTrials', 'diseases']
+};
+
+const LANDSCAPE_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    condition: { type: 'string' },
+    filters: { type: 'object' },
+    totalStudies: { type: 'number' },
+    analyzedStudies: { type: 'number' },
+    complete: { type: 'boolean', description: 'Whether every matching study was included' },
+    studiesWithoutInterventions: { type: 'number' },
+    sponsorCount: { type: 'number' },
+    interventionCount: { type: 'number' },
+    rowCount: { type: 'number' },
+    rowsShown: { type: 'number' },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          sponsor: { type: 'string' },
+          sponsorClass: { type: 'string' },
+          intervention: { type: 'string' },
+          interventionType: { type: 'string' },
+          highestPhase: { type: 'string' },
+          activeTrials: { type: 'number' },
+          completedTrials: { type: 'number' },
+          totalTrials: { type: 'number' },
+          latestStartDate: { type: 'string' },
+          leadNctIds: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['sponsor', 'intervention', 'activeTrials', 'completedTrials', 'totalTrials', 'leadNctIds']
+      }
+    },
+    markdown: { type: 'string' }
+  },
+  required: ['condition', 'totalStudies', 'analyzedStudies', 'complete', 'rowCount', 'rowsShown', 'rows']
+};
+
+const ADVERSE_EVENTS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    comparisonCriteria: { type: 'object' },
+    studiesCompared: { type: 'number' },
+    notFound: { type: 'array', items: { type: 'string' } },
+    withoutResults: { type: 'array', items: { type: 'string' } },
+    studies: { type: 'array', items: { type: 'object' } },
+    acrossTrials: { type: 'array', items: { type: 'object' } }
+  },
+  required: ['studiesCompared', 'notFound', 'withoutResults', 'studies']
+};
+
+const EXPORT_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    searchCriteria: { type: 'object' },
+    format: { type: 'string' },
+    mimeType: { type: 'string' },
+    fileName: { type: 'string' },
+    columns: { type: 'array', items: { type: 'string' } },
+    rowCount: { type: 'number' },
+    totalCount: { type: 'number' },
+    truncated: { type: 'boolean' },
+    encoding: { type: 'string', enum: ['utf8', 'base64'] },
+    data: { type: 'string' }
+  },
+  required: ['format', 'mimeType', 'columns', 'rowCount', 'totalCount', 'truncated', 'encoding', 'data']
+};
+
+const CRITERION_ASSESSMENT_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      criterion: { type: 'string' },
+      reason: { type: 'string' },
+      type: { type: 'string', enum: ['inclusion', 'exclusion'] }
+    },
+    required: ['criterion']
+  }
+};
+
+const MATCH_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    patient: { type: 'object' },
+    totalCount: { type: 'number' },
+    candidatesEvaluated: { type: 'number' },
+    eligibleCount: { type: 'number' },
+    resultsShown: { type: 'number' },
+    matches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...STUDY_SUMMARY_SCHEMA.properties,
+          score: { type: 'number' },
+          eligible: { type: 'boolean' },
+          metInclusion: CRITERION_ASSESSMENT_SCHEMA,
+          unmetInclusion: CRITERION_ASSESSMENT_SCHEMA,
+          exclusionsHit: CRITERION_ASSESSMENT_SCHEMA,
+          exclusionsCleared: CRITERION_ASSESSMENT_SCHEMA,
+          notEvaluated: CRITERION_ASSESSMENT_SCHEMA
+        },
+        required: ['nctId', 'score', 'eligible', 'metInclusion', 'unmetInclusion', 'exclusionsHit', 'notEvaluated']
+      }
+    }
+  },
+  required: ['totalCount', 'candidatesEvaluated', 'eligibleCount', 'resultsShown', 'matches']
+};
+
+const ELIGIBILITY_CRITERIA_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+      structured: { type: 'array', items: { type: 'object' } },
+      children: { type: 'array', items: { type: 'object' } }
+    },
+    required: ['text']
+  }
+};
+
+const PARSE_ELIGIBILITY_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    nctId: { type: 'string' },
+    title: { type: 'string' },
+    sex: { type: 'string' },
+    minimumAge: { type: 'string' },
+    maximumAge: { type: 'string' },
+    healthyVolunteers: { type: 'boolean' },
+    inclusion: ELIGIBILITY_CRITERIA_SCHEMA,
+    exclusion: ELIGIBILITY_CRITERIA_SCHEMA
+  },
+  required: ['inclusion', 'exclusion']
+};
+
+const WATCH_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    nctId: { type: 'string' },
+    title: { type: 'string' },
+    watched: { type: 'boolean' },
+    changed: { type: 'boolean', description: 'Whether the call added or removed the study' },
+    watchedSince: { type: 'string' },
+    watchedCount: { type: 'number' }
+  },
+  required: ['nctId', 'watched', 'changed', 'watchedCount']
+};
+
+const WATCHLIST_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    watchedCount: { type: 'number' },
+    pollIntervalSeconds: { type: 'number' },
+    studies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          nctId: { type: 'string' },
+          title: { type: 'string' },
+          status: { type: 'string' },
+          watchedSince: { type: 'string' },
+          lastCheckedAt: { type: 'string' },
+          lastChangedAt: { type: 'string' },
+          pendingChanges: { type: 'number' }
+        },
+        required: ['nctId', 'title', 'watchedSince', 'lastCheckedAt', 'pendingChanges']
+      }
+    }
+  },
+  required: ['watchedCount', 'studies']
+};
+
+const WATCHLIST_CHANGES_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    checkedAt: { type: 'string' },
+    studiesChecked: { type: 'number' },
+    changeCount: { type: 'number' },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          nctId: { type: 'string' },
+          title: { type: 'string' },
+          detectedAt: { type: 'string' },
+          summary: { type: 'array', items: { type: 'string' } },
+          changes: FIELD_CHANGES_SCHEMA
+        },
+        required: ['nctId', 'detectedAt', 'summary', 'changes']
+      }
+    },
+    cleared: { type: 'boolean' }
+  },
+  required: ['changeCount', 'changes']
+};
+
+const CACHE_STATS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    hits: { type: 'number' },
+    misses: { type: 'number' },
+    diskHits: { type: 'number' },
+    evictions: { type: 'number' },
+    entries: { type: 'number' },
+    maxEntries: { type: 'number' },
+    hitRate: { type: 'number' },
+    ttlSeconds: { type: 'object' },
+    diskDir: { type: ['string', 'null'] },
+    cleared: { type: 'boolean' }
+  },
+  required: ['hits', 'misses', 'entries']
+};
 
 export class ClinicalTrialsServer {
   private server: Server;
   private axiosInstance;
+  private studySource: StudySource;
+  private cache: ResponseCache;
+  private recentStudies = new Map<string, string>();
+  private watchlist: Watchlist;
+  private subscriptions = new Set<string>();
 
   constructor() {
     this.server = new Server(
@@ -94,6 +696,8 @@ export class ClinicalTrialsServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
@@ -101,14 +705,41 @@ export class ClinicalTrialsServer {
     // Create axios instance with default configuration
     this.axiosInstance = axios.create({
       baseURL: API_BASE_URL,
-      timeout: 30000,
+      timeout: API_TIMEOUT_MS,
       headers: {
         'Accept': 'application/json',
-        'User-Agent': 'ClinicalTrials-MCP-Server/0.1.0',
+        'User-Agent': API_USER_AGENT,
+      },
+    });
+    attachResilience(this.axiosInstance, RESILIENCE_OPTIONS);
+
+    this.studySource = this.createStudySource();
+
+    this.cache = new ResponseCache({
+      maxEntries: CACHE_MAX_ENTRIES,
+      ttlMs: {
+        study: CACHE_STUDY_TTL_SECONDS * 1000,
+        search: CACHE_SEARCH_TTL_SECONDS * 1000
       },
+      diskDir: process.env.CACHE_DIR
     });
 
+    if (SPONSOR_ALIASES_FILE) {
+      loadSponsorAliasFile(SPONSOR_ALIASES_FILE);
+    }
+
+    this.watchlist = new Watchlist({ file: process.env.WATCHLIST_FILE, maxChanges: MAX_WATCHLIST_CHANGES });
+    if (WATCHLIST_POLL_INTERVAL_SECONDS > 0) {
+      // unref so the poller never keeps the process alive on its own
+      setInterval(() => {
+        this.checkWatchlist().catch(error =>
+          console.error('[Watchlist] Poll failed:', error instanceof Error ? error.message : error));
+      }, WATCHLIST_POLL_INTERVAL_SECONDS * 1000).unref();
+    }
+
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
     
     // Error handling
     this.server.onerror = (error) => console.error('[MCP Error]', error);
@@ -122,6 +753,24 @@ export class ClinicalTrialsServer {
     return this.server;
   }
 
+  private createStudySource(): StudySource {
+    switch (STUDY_SOURCE) {
+      case 'api':
+        return new ApiStudySource(this.axiosInstance, API_HISTORY_BASE_URL);
+      case 'fixtures':
+        if (!STUDY_FIXTURES_DIR) {
+          throw new Error('STUDY_FIXTURES_DIR must be set when STUDY_SOURCE is "fixtures"');
+        }
+        return new FixtureStudySource(STUDY_FIXTURES_DIR);
+      default:
+        throw new Error(`Unknown STUDY_SOURCE: ${STUDY_SOURCE} (expected "api" or "fixtures")`);
+    }
+  }
+
+  public getCacheStats() {
+    return this.cache.stats();
+  }
+
   private setupToolHandlers() {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
@@ -132,54 +781,121 @@ export class ClinicalTrialsServer {
           inputSchema: {
             type: 'object',
             properties: {
-              query: {
-                type: 'string',
-                description: 'General search term (condition, intervention, etc.)'
+              ...SEARCH_CRITERIA_PROPERTIES,
+              pageSize: {
+                type: 'number',
+                description: 'Number of results to return (default 10, max 100)',
+                minimum: 1,
+                maximum: 100
               },
-              condition: {
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
+            }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_study_details',
+          description: 'Get detailed information about a specific clinical trial, including arms, interventions, outcomes, contacts and references',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctId: {
                 type: 'string',
-                description: 'Medical condition or disease'
+                description: 'NCT ID of the study (e.g., NCT00000419)',
+                pattern: '^NCT\\d{8}$'
               },
-              intervention: {
-                type: 'string',
-                description: 'Treatment, drug, or intervention'
+              sections: {
+                type: 'array',
+                description: 'Sections to include (default: all)',
+                items: {
+                  type: 'string',
+                  enum: STUDY_DETAIL_SECTIONS
+                }
               },
-              location: {
-                type: 'string',
-                description: 'Geographic location (city, state, country)'
+              ...CACHE_PROPERTIES
+            },
+            required: ['nctId']
+          },
+          outputSchema: STUDY_DETAILS_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_studies_batch',
+          description: `Get detailed information about up to ${MAX_BATCH_IDS} clinical trials in one call, in the order given, with the IDs that were not found or are malformed`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctIds: {
+                type: 'array',
+                description: 'NCT IDs of the studies (e.g., ["NCT00000419", "NCT05882279"])',
+                items: { type: 'string' },
+                minItems: 1,
+                maxItems: MAX_BATCH_IDS
               },
-              phase: {
-                type: 'string',
-                description: 'Study phase (PHASE1, PHASE2, PHASE3, PHASE4, NA)',
-                enum: ['PHASE1', 'PHASE2', 'PHASE3', 'PHASE4', 'NA']
+              sections: {
+                type: 'array',
+                description: 'Sections to include for every study (default: all)',
+                items: {
+                  type: 'string',
+                  enum: STUDY_DETAIL_SECTIONS
+                }
               },
-              status: {
+              ...CACHE_PROPERTIES
+            },
+            required: ['nctIds']
+          },
+          outputSchema: STUDIES_BATCH_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_study_results',
+          description: 'Get posted results for a clinical trial: participant flow, baseline characteristics, outcome measures with per-arm values and analyses, and adverse events',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctId: {
                 type: 'string',
-                description: 'Recruitment status',
-                enum: ['RECRUITING', 'NOT_YET_RECRUITING', 'COMPLETED', 'TERMINATED', 'SUSPENDED', 'WITHDRAWN']
+                description: 'NCT ID of the study (e.g., NCT00000419)',
+                pattern: '^NCT\\d{8}$'
               },
-              sex: {
+              sections: {
+                type: 'array',
+                description: 'Results sections to include (default: all)',
+                items: {
+                  type: 'string',
+                  enum: STUDY_RESULT_SECTIONS
+                }
+              },
+              outcomeType: {
                 type: 'string',
-                description: 'Sex eligibility',
-                enum: ['ALL', 'FEMALE', 'MALE']
+                description: 'Only return outcome measures of this type',
+                enum: ['PRIMARY', 'SECONDARY', 'OTHER_PRE_SPECIFIED', 'POST_HOC']
               },
-              age: {
+              ...CACHE_PROPERTIES
+            },
+            required: ['nctId']
+          },
+          outputSchema: STUDY_RESULTS_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_study_history',
+          description: 'List the versions of a study record with their dates, overall status and the modules each version changed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctId: {
                 type: 'string',
-                description: 'Age group',
-                enum: ['CHILD', 'ADULT', 'OLDER_ADULT']
+                description: 'NCT ID of the study (e.g., NCT00000419)',
+                pattern: '^NCT\\d{8}$'
               },
-              pageSize: {
-                type: 'number',
-                description: 'Number of results to return (default 10, max 100)',
-                minimum: 1,
-                maximum: 100
-              }
-            }
-          }
+              ...CACHE_PROPERTIES
+            },
+            required: ['nctId']
+          },
+          outputSchema: STUDY_HISTORY_OUTPUT_SCHEMA
         },
         {
-          name: 'get_study_details',
-          description: 'Get detailed information about a specific clinical trial',
+          name: 'diff_study_versions',
+          description: 'Field-level diff between two versions of a study record, with a summary of amended outcomes, eligibility, status and enrollment',
           inputSchema: {
             type: 'object',
             properties: {
@@ -187,14 +903,26 @@ export class ClinicalTrialsServer {
                 type: 'string',
                 description: 'NCT ID of the study (e.g., NCT00000419)',
                 pattern: '^NCT\\d{8}$'
-              }
+              },
+              fromVersion: {
+                type: 'number',
+                description: 'Earlier version number from get_study_history (default: the version before toVersion)',
+                minimum: 0
+              },
+              toVersion: {
+                type: 'number',
+                description: 'Later version number (default: the latest version)',
+                minimum: 0
+              },
+              ...CACHE_PROPERTIES
             },
             required: ['nctId']
-          }
+          },
+          outputSchema: STUDY_DIFF_OUTPUT_SCHEMA
         },
         {
           name: 'search_by_location',
-          description: 'Find clinical trials by geographic location',
+          description: 'Find clinical trials by geographic location. Radius searches are sorted nearest first within the studies returned by each call; use maxResults rather than pageToken to rank a larger set in one call',
           inputSchema: {
             type: 'object',
             properties: {
@@ -208,7 +936,23 @@ export class ClinicalTrialsServer {
               },
               city: {
                 type: 'string',
-                description: 'City name'
+                description: 'City name; resolved to coordinates for a radius search when distance is given'
+              },
+              zip: {
+                type: 'string',
+                description: 'US ZIP code or Canadian postal code to search around'
+              },
+              latitude: {
+                type: 'number',
+                description: 'Latitude of the search center (use with longitude)',
+                minimum: -90,
+                maximum: 90
+              },
+              longitude: {
+                type: 'number',
+                description: 'Longitude of the search center (use with latitude)',
+                minimum: -180,
+                maximum: 180
               },
               facilityName: {
                 type: 'string',
@@ -216,18 +960,27 @@ export class ClinicalTrialsServer {
               },
               distance: {
                 type: 'number',
-                description: 'Search radius in miles (when using city)',
+                description: `Search radius around the city, ZIP code or coordinates (default ${DEFAULT_SEARCH_RADIUS})`,
                 minimum: 1,
                 maximum: 500
               },
+              distanceUnit: {
+                type: 'string',
+                description: 'Unit of distance and of the reported site distances',
+                enum: ['mi', 'km'],
+                default: 'mi'
+              },
               pageSize: {
                 type: 'number',
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             }
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'search_by_condition',
@@ -255,33 +1008,120 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...CONDITION_EXPANSION_PROPERTIES,
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             },
             required: ['condition']
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'get_trial_statistics',
-          description: 'Get aggregate statistics about clinical trials',
+          description: `Get exact aggregate statistics over every matching clinical trial (up to ${STATISTICS_MAX_STUDIES}), grouped by one field or cross-tabulated by two. Multi-valued fields (phase, condition) count every value, so group counts can add up to more than the number of studies`,
           inputSchema: {
             type: 'object',
             properties: {
               groupBy: {
                 type: 'string',
-                description: 'Field to group statistics by',
-                enum: ['phase', 'status', 'studyType', 'condition', 'sponsor']
+                description: 'Field to group statistics by (conditionCategory rolls conditions up to their top-level category)',
+                enum: Object.keys(STATISTICS_FIELDS)
               },
-              filters: {
-                type: 'object',
-                description: 'Optional filters to apply',
-                properties: {
-                  condition: { type: 'string' },
-                  phase: { type: 'string' },
-                  status: { type: 'string' }
-                }
-              }
+              crossBy: {
+                type: 'string',
+                description: 'Second field to cross-tabulate against groupBy (e.g. groupBy "phase", crossBy "status")',
+                enum: Object.keys(STATISTICS_FIELDS)
+              },
+              filters: STATISTICS_FILTERS_PROPERTY,
+              ...CACHE_PROPERTIES
             }
-          }
+          },
+          outputSchema: TRIAL_STATISTICS_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_trial_trends',
+          description: 'Count matching trials per start, first-posted or completion year, optionally split by phase, sponsor class or status, with year-over-year change',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              dateField: {
+                type: 'string',
+                description: 'Status date whose year buckets the studies',
+                enum: Object.keys(TREND_DATE_FIELDS),
+                default: 'startYear'
+              },
+              splitBy: {
+                type: 'string',
+                description: 'Split each year by this field',
+                enum: ['phase', 'sponsorClass', 'status']
+              },
+              fromYear: {
+                type: 'number',
+                description: 'First year of the series',
+                minimum: 1900,
+                maximum: 2100
+              },
+              toYear: {
+                type: 'number',
+                description: 'Last year of the series',
+                minimum: 1900,
+                maximum: 2100
+              },
+              filters: STATISTICS_FILTERS_PROPERTY,
+              ...CACHE_PROPERTIES
+            }
+          },
+          outputSchema: TRIAL_TRENDS_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_competitive_landscape',
+          description: 'Who is doing what in an indication: a sponsor × intervention matrix with the highest phase reached, active and completed trial counts, latest start date and lead NCT IDs',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              condition: {
+                type: 'string',
+                description: 'Indication to map (e.g., "obesity", "non-small cell lung cancer")'
+              },
+              sponsor: {
+                type: 'string',
+                description: 'Only include trials of this sponsor'
+              },
+              intervention: {
+                type: 'string',
+                description: 'Only include trials of this intervention'
+              },
+              interventionTypes: {
+                type: 'array',
+                description: 'Only include interventions of these types',
+                items: {
+                  type: 'string',
+                  enum: ['DRUG', 'BIOLOGICAL', 'DEVICE', 'PROCEDURE', 'RADIATION', 'BEHAVIORAL', 'GENETIC', 'DIETARY_SUPPLEMENT', 'COMBINATION_PRODUCT', 'DIAGNOSTIC_TEST', 'OTHER']
+                }
+              },
+              includeComparators: {
+                type: 'boolean',
+                description: 'Keep placebo, standard-of-care and other comparator interventions',
+                default: false
+              },
+              limit: {
+                type: 'number',
+                description: `Maximum rows to return (default ${DEFAULT_LANDSCAPE_ROWS})`,
+                minimum: 1,
+                maximum: MAX_LANDSCAPE_ROWS
+              },
+              format: {
+                type: 'string',
+                description: 'markdown also returns the matrix as a Markdown table',
+                enum: ['json', 'markdown'],
+                default: 'json'
+              },
+              ...CACHE_PROPERTIES
+            },
+            required: ['condition']
+          },
+          outputSchema: LANDSCAPE_OUTPUT_SCHEMA
         },
         {
           name: 'search_by_sponsor',
@@ -299,15 +1139,23 @@ export class ClinicalTrialsServer {
                 description: 'Type of sponsor',
                 enum: ['INDUSTRY', 'NIH', 'FED', 'OTHER']
               },
+              includeAliases: {
+                type: 'boolean',
+                description: 'Also search the known aliases and subsidiaries of the sponsor (e.g. "Pfizer" includes Wyeth and Hospira)',
+                default: false
+              },
               pageSize: {
                 type: 'number',
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             },
             required: ['sponsor']
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'search_by_intervention',
@@ -335,10 +1183,13 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             },
             required: ['intervention']
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'get_recruiting_studies',
@@ -364,9 +1215,13 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 50)',
                 minimum: 1,
                 maximum: 50
-              }
+              },
+              ...CONDITION_EXPANSION_PROPERTIES,
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             }
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'search_by_date_range',
@@ -403,9 +1258,12 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             }
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'get_studies_with_results',
@@ -431,9 +1289,55 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             }
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
+        },
+        {
+          name: 'compare_adverse_events',
+          description: 'Compare serious and other adverse events between the arms of one or more completed trials, with per-arm rates and risk differences',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctIds: {
+                type: 'array',
+                description: 'NCT IDs of trials with posted results',
+                items: {
+                  type: 'string',
+                  pattern: '^NCT\\d{8}$'
+                },
+                minItems: 1,
+                maxItems: MAX_COMPARED_STUDIES
+              },
+              eventType: {
+                type: 'string',
+                description: 'Which adverse events to compare',
+                enum: ['SERIOUS', 'OTHER', 'ALL'],
+                default: 'ALL'
+              },
+              referenceArm: {
+                type: 'string',
+                description: 'Text matching the comparator arm title (default: placebo/control arm, else the first arm)'
+              },
+              aggregateByOrganSystem: {
+                type: 'boolean',
+                description: 'Also roll event counts up to MedDRA system organ classes',
+                default: false
+              },
+              minRate: {
+                type: 'number',
+                description: 'Only include events reaching this rate (0-1) in at least one arm',
+                minimum: 0,
+                maximum: 1
+              },
+              ...CACHE_PROPERTIES
+            },
+            required: ['nctIds']
+          },
+          outputSchema: ADVERSE_EVENTS_OUTPUT_SCHEMA
         },
         {
           name: 'search_rare_diseases',
@@ -443,7 +1347,7 @@ export class ClinicalTrialsServer {
             properties: {
               rareDisease: {
                 type: 'string',
-                description: 'Rare disease or orphan condition name',
+                description: 'Rare disease name, synonym or ORPHA code (e.g., "Pompe disease", "ORPHA:365")',
                 minLength: 2
               },
               recruitmentStatus: {
@@ -456,10 +1360,44 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             },
             required: ['rareDisease']
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
+        },
+        {
+          name: 'list_rare_diseases_with_trials',
+          description: 'Browse the bundled rare disease catalog with the number of trials for each disease, most studied first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              group: {
+                type: 'string',
+                description: 'Only diseases of this group',
+                enum: RARE_DISEASE_GROUPS
+              },
+              maxPrevalence: {
+                type: 'string',
+                description: 'Only diseases at most this common (Orphanet prevalence class)',
+                enum: [...PREVALENCE_CLASSES]
+              },
+              recruitmentStatus: {
+                type: 'string',
+                description: 'Only count trials with this status',
+                enum: ['RECRUITING', 'NOT_YET_RECRUITING', 'ACTIVE_NOT_RECRUITING', 'COMPLETED']
+              },
+              includeEmpty: {
+                type: 'boolean',
+                description: 'Also list diseases with no matching trials',
+                default: false
+              },
+              ...CACHE_PROPERTIES
+            }
+          },
+          outputSchema: RARE_DISEASE_LIST_OUTPUT_SCHEMA
         },
         {
           name: 'get_pediatric_studies',
@@ -486,9 +1424,12 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 50)',
                 minimum: 1,
                 maximum: 50
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             }
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'get_similar_studies',
@@ -503,19 +1444,39 @@ export class ClinicalTrialsServer {
               },
               similarityType: {
                 type: 'string',
-                description: 'Type of similarity to search for',
-                enum: ['CONDITION', 'INTERVENTION', 'SPONSOR', 'PHASE'],
+                description: 'Type of similarity to search for; MULTI_FACTOR ranks candidates by a weighted score over conditions, interventions, phase, design, age range and keywords',
+                enum: ['CONDITION', 'INTERVENTION', 'SPONSOR', 'PHASE', 'MULTI_FACTOR'],
                 default: 'CONDITION'
               },
+              weights: {
+                type: 'object',
+                description: `MULTI_FACTOR weight of each factor (default ${Object.entries(DEFAULT_SIMILARITY_WEIGHTS).map(([factor, weight]) => `${factor} ${weight}`).join(', ')}); 0 ignores a factor`,
+                properties: Object.fromEntries(SIMILARITY_FACTORS.map(factor => [factor, { type: 'number', minimum: 0 }])),
+                additionalProperties: false
+              },
+              candidatePool: {
+                type: 'number',
+                description: `MULTI_FACTOR candidates fetched per dimension before scoring (default ${DEFAULT_SIMILARITY_CANDIDATES})`,
+                minimum: 1,
+                maximum: MAX_SIMILARITY_CANDIDATES
+              },
               pageSize: {
                 type: 'number',
                 description: 'Number of results to return (default 10, max 50)',
                 minimum: 1,
                 maximum: 50
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             },
             required: ['nctId']
-          }
+          },
+          outputSchema: searchOutputSchema('similarStudies', {
+            referenceStudy: { type: 'object' },
+            similarityType: { type: 'string' },
+            weights: { type: 'object' },
+            message: { type: 'string' }
+          })
         },
         {
           name: 'search_by_primary_outcome',
@@ -542,10 +1503,13 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             },
             required: ['outcome']
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'search_by_eligibility_criteria',
@@ -587,9 +1551,12 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             }
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'get_study_timeline',
@@ -621,9 +1588,12 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 50)',
                 minimum: 1,
                 maximum: 50
-              }
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
             }
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: 'search_international_studies',
@@ -659,9 +1629,214 @@ export class ClinicalTrialsServer {
                 description: 'Number of results to return (default 10, max 100)',
                 minimum: 1,
                 maximum: 100
+              },
+              ...PAGINATION_PROPERTIES,
+              ...CACHE_PROPERTIES
+            }
+          },
+          outputSchema: searchOutputSchema('internationalStudies')
+        },
+        {
+          name: 'parse_eligibility',
+          description: 'Parse eligibility criteria into inclusion and exclusion lists with structured age, performance status, lab threshold, prior therapy and pregnancy items',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctId: {
+                type: 'string',
+                description: 'NCT ID of the study whose criteria to parse',
+                pattern: '^NCT\\d{8}$'
+              },
+              criteria: {
+                type: 'string',
+                description: 'Eligibility criteria text to parse instead of looking up a study'
+              },
+              ...CACHE_PROPERTIES
+            }
+          },
+          outputSchema: PARSE_ELIGIBILITY_OUTPUT_SCHEMA
+        },
+        {
+          name: 'match_patient_to_trials',
+          description: 'Rank recruiting trials for a patient profile, explaining which inclusion criteria are met, which exclusion criteria are hit and which could not be evaluated',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              patient: {
+                type: 'object',
+                description: 'Structured patient profile',
+                properties: {
+                  age: { type: 'number', description: 'Age in years' },
+                  sex: { type: 'string', enum: ['FEMALE', 'MALE'] },
+                  diagnoses: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Diagnoses, e.g. ["metastatic breast cancer"]; used to find candidate trials'
+                  },
+                  priorTherapies: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Treatments the patient has already received'
+                  },
+                  labValues: {
+                    type: 'object',
+                    additionalProperties: {
+                      anyOf: [
+                        { type: 'number' },
+                        {
+                          type: 'object',
+                          properties: { value: { type: 'number' }, unit: { type: 'string' } },
+                          required: ['value']
+                        }
+                      ]
+                    },
+                    description: 'Lab results keyed by the name used in criteria, with their unit, e.g. {"ANC": {"value": 1800, "unit": "/µL"}, "AST": {"value": 0.8, "unit": "x ULN"}}. ' +
+                      'Bare numbers are only compared with thresholds that have no unit'
+                  },
+                  ecog: { type: 'number', description: 'ECOG performance status (0-5)', minimum: 0, maximum: 5 },
+                  pregnant: { type: 'boolean' },
+                  breastfeeding: { type: 'boolean' },
+                  location: { type: 'string', description: 'Where the patient can be treated (city, state or country)' }
+                },
+                required: ['diagnoses']
+              },
+              maxCandidates: {
+                type: 'number',
+                description: `Recruiting trials to fetch and score (default ${DEFAULT_MATCH_CANDIDATES}, max ${MAX_MATCH_CANDIDATES})`,
+                minimum: 1,
+                maximum: MAX_MATCH_CANDIDATES
+              },
+              limit: {
+                type: 'number',
+                description: 'Number of ranked matches to return (default 10)',
+                minimum: 1
+              },
+              includeIneligible: {
+                type: 'boolean',
+                description: 'Also return trials with an unmet inclusion or a hit exclusion criterion, ranked after eligible ones',
+                default: false
+              },
+              ...CACHE_PROPERTIES
+            },
+            required: ['patient']
+          },
+          outputSchema: MATCH_OUTPUT_SCHEMA
+        },
+        {
+          name: 'export_studies',
+          description: 'Export every study matching the search criteria as CSV, NDJSON, a Markdown table or an Excel workbook',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...SEARCH_CRITERIA_PROPERTIES,
+              format: {
+                type: 'string',
+                description: 'Export format (xlsx content is returned base64-encoded)',
+                enum: Object.keys(EXPORT_FORMATS),
+                default: 'csv'
+              },
+              columns: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Columns to include: summary fields (nctId, title, status, phase, studyType, sponsor, conditions, startDate) ' +
+                  'or paths into get_study_details sections such as "status.primaryCompletionDate", "design.enrollment.count" ' +
+                  `or "armsInterventions.interventions.name". Defaults to ${DEFAULT_EXPORT_COLUMNS.join(', ')}`
+              },
+              maxRows: {
+                type: 'number',
+                description: `Stop after this many studies (default and max ${EXPORT_MAX_ROWS})`,
+                minimum: 1,
+                maximum: EXPORT_MAX_ROWS
+              },
+              ...CACHE_PROPERTIES
+            }
+          },
+          outputSchema: EXPORT_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_cache_stats',
+          description: 'Get hit/miss statistics for the ClinicalTrials.gov response cache',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              clear: {
+                type: 'boolean',
+                description: 'Clear the cache (memory and disk) after reporting statistics',
+                default: false
               }
             }
-          }
+          },
+          outputSchema: CACHE_STATS_OUTPUT_SCHEMA
+        },
+        {
+          name: 'watch_study',
+          description: 'Add a study to the watchlist; it is re-checked periodically and field-level changes are reported',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctId: {
+                type: 'string',
+                description: 'NCT ID of the study to watch',
+                pattern: '^NCT\\d{8}$'
+              }
+            },
+            required: ['nctId']
+          },
+          outputSchema: WATCH_OUTPUT_SCHEMA
+        },
+        {
+          name: 'unwatch_study',
+          description: 'Remove a study from the watchlist, dropping its logged changes',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctId: {
+                type: 'string',
+                description: 'NCT ID of the study to stop watching',
+                pattern: '^NCT\\d{8}$'
+              }
+            },
+            required: ['nctId']
+          },
+          outputSchema: WATCH_OUTPUT_SCHEMA
+        },
+        {
+          name: 'list_watched',
+          description: 'List watched studies with when they were last checked and changed',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          },
+          outputSchema: WATCHLIST_OUTPUT_SCHEMA
+        },
+        {
+          name: 'get_watchlist_changes',
+          description: 'Get the changes detected in watched studies (status, sites, results and every other field), oldest first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              nctId: {
+                type: 'string',
+                description: 'Only report changes to this study',
+                pattern: '^NCT\\d{8}$'
+              },
+              since: {
+                type: 'string',
+                description: 'Only report changes detected after this time (ISO 8601)'
+              },
+              checkNow: {
+                type: 'boolean',
+                description: 'Re-check every watched study before reporting instead of waiting for the next poll',
+                default: false
+              },
+              clear: {
+                type: 'boolean',
+                description: 'Remove the reported changes from the log',
+                default: false
+              }
+            }
+          },
+          outputSchema: WATCHLIST_CHANGES_OUTPUT_SCHEMA
         }
       ]
     }));
@@ -674,12 +1849,24 @@ export class ClinicalTrialsServer {
             return await this.handleSearchStudies(request.params.arguments);
           case 'get_study_details':
             return await this.handleGetStudyDetails(request.params.arguments);
+          case 'get_studies_batch':
+            return await this.handleGetStudiesBatch(request.params.arguments);
+          case 'get_study_results':
+            return await this.handleGetStudyResults(request.params.arguments);
+          case 'get_study_history':
+            return await this.handleGetStudyHistory(request.params.arguments);
+          case 'diff_study_versions':
+            return await this.handleDiffStudyVersions(request.params.arguments);
           case 'search_by_location':
             return await this.handleSearchByLocation(request.params.arguments);
           case 'search_by_condition':
             return await this.handleSearchByCondition(request.params.arguments);
           case 'get_trial_statistics':
             return await this.handleGetTrialStatistics(request.params.arguments);
+          case 'get_trial_trends':
+            return await this.handleGetTrialTrends(request.params.arguments);
+          case 'get_competitive_landscape':
+            return await this.handleGetCompetitiveLandscape(request.params.arguments);
           case 'search_by_sponsor':
             return await this.handleSearchBySponsor(request.params.arguments);
           case 'search_by_intervention':
@@ -690,8 +1877,12 @@ export class ClinicalTrialsServer {
             return await this.handleSearchByDateRange(request.params.arguments);
           case 'get_studies_with_results':
             return await this.handleGetStudiesWithResults(request.params.arguments);
+          case 'compare_adverse_events':
+            return await this.handleCompareAdverseEvents(request.params.arguments);
           case 'search_rare_diseases':
             return await this.handleSearchRareDiseases(request.params.arguments);
+          case 'list_rare_diseases_with_trials':
+            return await this.handleListRareDiseasesWithTrials(request.params.arguments);
           case 'get_pediatric_studies':
             return await this.handleGetPediatricStudies(request.params.arguments);
           case 'get_similar_studies':
@@ -704,6 +1895,22 @@ export class ClinicalTrialsServer {
             return await this.handleGetStudyTimeline(request.params.arguments);
           case 'search_international_studies':
             return await this.handleSearchInternationalStudies(request.params.arguments);
+          case 'parse_eligibility':
+            return await this.handleParseEligibility(request.params.arguments);
+          case 'match_patient_to_trials':
+            return await this.handleMatchPatientToTrials(request.params.arguments);
+          case 'export_studies':
+            return await this.handleExportStudies(request.params.arguments);
+          case 'get_cache_stats':
+            return await this.handleGetCacheStats(request.params.arguments);
+          case 'watch_study':
+            return await this.handleWatchStudy(request.params.arguments);
+          case 'unwatch_study':
+            return await this.handleUnwatchStudy(request.params.arguments);
+          case 'list_watched':
+            return await this.handleListWatched(request.params.arguments);
+          case 'get_watchlist_changes':
+            return await this.handleGetWatchlistChanges(request.params.arguments);
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -721,67 +1928,266 @@ export class ClinicalTrialsServer {
     });
   }
 
+  private setupResourceHandlers() {
+    // Watched studies, then studies looked up during this session, most recent first
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const studies = new Map((await this.watchlist.list()).map(entry => [entry.nctId, entry.title]));
+      for (const [nctId, title] of [...this.recentStudies.entries()].reverse()) {
+        if (!studies.has(nctId)) {
+          studies.set(nctId, title);
+        }
+      }
+      return {
+        resources: [...studies.entries()].map(([nctId, title]) => ({
+          uri: `clinicaltrials://study/${nctId}`,
+          name: `${nctId}: ${title}`,
+          mimeType: 'application/json'
+        }))
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: 'clinicaltrials://study/{nctId}',
+          name: 'Clinical trial record',
+          description: 'Full ClinicalTrials.gov v2 record for a study',
+          mimeType: 'application/json'
+        },
+        {
+          uriTemplate: 'clinicaltrials://study/{nctId}/results',
+          name: 'Clinical trial results',
+          description: 'Posted results: participant flow, baseline characteristics, outcome measures and adverse events',
+          mimeType: 'application/json'
+        },
+        {
+          uriTemplate: 'clinicaltrials://study/{nctId}/locations',
+          name: 'Clinical trial locations',
+          description: 'All study sites with status, address and coordinates',
+          mimeType: 'application/json'
+        }
+      ]
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      this.handleReadResource(request.params.uri));
+
+    // Subscribed study URIs get a resources/updated notification when the
+    // watchlist poller sees the study change
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      if (!STUDY_RESOURCE_PATTERN.test(request.params.uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${request.params.uri}`);
+      }
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  public async handleReadResource(uri: string) {
+    const match = STUDY_RESOURCE_PATTERN.exec(uri);
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unsupported resource URI: ${uri} (expected clinicaltrials://study/NCT########[/results|/locations])`
+      );
+    }
+
+    const [, nctId, part] = match;
+    let study: Study | undefined;
+    try {
+      study = await this.fetchStudyById(nctId);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new McpError(ErrorCode.InternalError, this.formatApiError(error));
+      }
+      throw error;
+    }
+
+    if (!study) {
+      throw new McpError(ErrorCode.InvalidParams, `No study found with NCT ID: ${nctId}`);
+    }
+
+    let contents: unknown;
+    switch (part) {
+      case 'results':
+        if (!study.resultsSection) {
+          throw new McpError(ErrorCode.InvalidParams, `No results have been posted for study: ${nctId}`);
+        }
+        contents = { nctId, ...this.formatStudyResults(study.resultsSection) };
+        break;
+      case 'locations':
+        contents = {
+          nctId,
+          locations: study.protocolSection.contactsLocationsModule?.locations || []
+        };
+        break;
+      default:
+        contents = study;
+    }
+
+    return {
+      contents: [{
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(contents, null, 2)
+      }]
+    };
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments
+      }))
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      this.handleGetPrompt(request.params.name, request.params.arguments));
+  }
+
+  public handleGetPrompt(name: string, args: Record<string, string> = {}) {
+    const prompt = PROMPTS.find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required arguments for ${name}: ${missing.map(argument => argument.name).join(', ')}`
+      );
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: prompt.render(args)
+        }
+      }]
+    };
+  }
+
   public async handleSearchStudies(args: any) {
+    const params = this.buildSearchParams(args);
+
+    try {
+      const response = await this.fetchStudies(params, args);
+      
+      const studies = response.studies || [];
+      const results = studies.map(study => this.formatStudySummary(study));
+
+      return this.toolResult({
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Translate the search_studies criteria into /studies query parameters.
+   */
+  private buildSearchParams(args: any) {
     const params: any = {
       'format': 'json',
       'pageSize': args?.pageSize || 10
     };
 
-    // Build query parameters based on arguments
     if (args?.query) {
       params['query.term'] = args.query;
     }
-    
     if (args?.condition) {
       params['query.cond'] = args.condition;
     }
-    
     if (args?.intervention) {
       params['query.intr'] = args.intervention;
     }
-    
     if (args?.location) {
       params['query.locn'] = args.location;
     }
-    
     if (args?.phase) {
       params['filter.phase'] = args.phase;
     }
-    
     if (args?.status) {
       params['filter.overallStatus'] = args.status;
     }
-    
     if (args?.sex) {
       params['filter.sex'] = args.sex;
     }
-    
     if (args?.age) {
       params['filter.stdAge'] = args.age;
     }
+    return params;
+  }
+
+  public async handleGetStudyDetails(args: any) {
+    if (!args?.nctId || !/^NCT\d{8}$/.test(args.nctId)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Valid NCT ID is required (format: NCT########)');
+    }
+
+    const sections: string[] = args.sections?.length ? args.sections : STUDY_DETAIL_SECTIONS;
+    const unknownSections = sections.filter(section => !STUDY_DETAIL_SECTIONS.includes(section));
+    if (unknownSections.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown sections: ${unknownSections.join(', ')}. Valid sections: ${STUDY_DETAIL_SECTIONS.join(', ')}`
+      );
+    }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
-      
-      const studies = response.data.studies || [];
-      const results = studies.map(study => this.formatStudySummary(study));
+      const study = await this.fetchStudyById(args.nctId, args.noCache);
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      if (!study) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No study found with NCT ID: ${args.nctId}`
+          }],
+          isError: true
+        };
+      }
+
+      const detailedInfo = this.formatDetailedStudy(study, sections);
+
+      return this.toolResult(detailedInfo);
     } catch (error) {
       if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Study not found: ${args.nctId}`
+            }],
+            isError: true
+          };
+        }
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -790,23 +2196,83 @@ export class ClinicalTrialsServer {
     }
   }
 
-  public async handleGetStudyDetails(args: any) {
+  public async handleGetStudiesBatch(args: any) {
+    if (!Array.isArray(args?.nctIds) || args.nctIds.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'nctIds must be a non-empty array of NCT IDs');
+    }
+    if (args.nctIds.length > MAX_BATCH_IDS) {
+      throw new McpError(ErrorCode.InvalidParams, `At most ${MAX_BATCH_IDS} NCT IDs can be looked up at once (got ${args.nctIds.length})`);
+    }
+
+    const sections: string[] = args.sections?.length ? args.sections : STUDY_DETAIL_SECTIONS;
+    const unknownSections = sections.filter(section => !STUDY_DETAIL_SECTIONS.includes(section));
+    if (unknownSections.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown sections: ${unknownSections.join(', ')}. Valid sections: ${STUDY_DETAIL_SECTIONS.join(', ')}`
+      );
+    }
+
+    // IDs are matched case-insensitively; repeats are looked up once
+    const invalidIds: string[] = [];
+    const nctIds: string[] = [];
+    for (const id of args.nctIds) {
+      const nctId = typeof id === 'string' ? id.trim().toUpperCase() : '';
+      if (!/^NCT\d{8}$/.test(nctId)) {
+        invalidIds.push(String(id));
+      } else if (!nctIds.includes(nctId)) {
+        nctIds.push(nctId);
+      }
+    }
+
+    try {
+      const found = new Map((nctIds.length > 0 ? await this.fetchStudiesByIds(nctIds, args.noCache) : [])
+        .map(study => [study.protocolSection.identificationModule.nctId, study]));
+      const studies = nctIds.filter(nctId => found.has(nctId)).map(nctId => {
+        const study = found.get(nctId)!;
+        this.rememberStudy(study);
+        return { nctId, ...this.formatDetailedStudy(study, sections) };
+      });
+
+      return this.toolResult({
+        requested: args.nctIds.length,
+        found: studies.length,
+        studies,
+        notFound: nctIds.filter(nctId => !found.has(nctId)),
+        invalidIds
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleGetStudyResults(args: any) {
     if (!args?.nctId || !/^NCT\d{8}$/.test(args.nctId)) {
       throw new McpError(ErrorCode.InvalidParams, 'Valid NCT ID is required (format: NCT########)');
     }
 
+    const sections: string[] = args.sections?.length ? args.sections : STUDY_RESULT_SECTIONS;
+    const unknownSections = sections.filter(section => !STUDY_RESULT_SECTIONS.includes(section));
+    if (unknownSections.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown sections: ${unknownSections.join(', ')}. Valid sections: ${STUDY_RESULT_SECTIONS.join(', ')}`
+      );
+    }
+
     try {
-      // Use the same endpoint as search but filter by NCT ID
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', {
-        params: { 
-          format: 'json',
-          'query.term': args.nctId,
-          'filter.ids': args.nctId,
-          pageSize: 1
-        }
-      });
+      const study = await this.fetchStudyById(args.nctId, args.noCache);
 
-      if (!response.data.studies || response.data.studies.length === 0) {
+      if (!study) {
         return {
           content: [{
             type: 'text',
@@ -816,30 +2282,152 @@ export class ClinicalTrialsServer {
         };
       }
 
-      const study = response.data.studies[0];
-      const detailedInfo = this.formatDetailedStudy(study);
+      if (!study.resultsSection) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No results have been posted for study: ${args.nctId}`
+          }],
+          isError: true
+        };
+      }
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(detailedInfo, null, 2)
-        }]
-      };
+      const results = this.formatStudyResults(study.resultsSection, sections);
+      if (results.outcomeMeasures && args.outcomeType) {
+        results.outcomeMeasures = results.outcomeMeasures.filter(outcome => outcome.type === args.outcomeType);
+      }
+
+      return this.toolResult({
+        nctId: args.nctId,
+        title: study.protocolSection.identificationModule.briefTitle,
+        resultsFirstPosted: study.protocolSection.statusModule.resultsFirstPostDateStruct?.date,
+        ...results
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleGetStudyHistory(args: any) {
+    if (!args?.nctId || !/^NCT\d{8}$/.test(args.nctId)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Valid NCT ID is required (format: NCT########)');
+    }
+
+    try {
+      const versions = await this.fetchStudyHistory(args.nctId, args.noCache);
+
+      if (!versions) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No record history found for NCT ID: ${args.nctId}`
+          }],
+          isError: true
+        };
+      }
+
+      return this.toolResult({
+        nctId: args.nctId,
+        versionCount: versions.length,
+        versions
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        if (error.response?.status === 404) {
-          return {
-            content: [{
-              type: 'text',
-              text: `Study not found: ${args.nctId}`
-            }],
-            isError: true
-          };
-        }
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleDiffStudyVersions(args: any) {
+    if (!args?.nctId || !/^NCT\d{8}$/.test(args.nctId)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Valid NCT ID is required (format: NCT########)');
+    }
+    for (const key of ['fromVersion', 'toVersion']) {
+      if (args[key] !== undefined && !(Number.isInteger(args[key]) && args[key] >= 0)) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be a non-negative integer`);
+      }
+    }
+    if (args.fromVersion !== undefined && args.toVersion !== undefined && args.fromVersion > args.toVersion) {
+      throw new McpError(ErrorCode.InvalidParams, 'fromVersion must not be after toVersion');
+    }
+
+    try {
+      const versions = await this.fetchStudyHistory(args.nctId, args.noCache);
+
+      if (!versions || versions.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No record history found for NCT ID: ${args.nctId}`
+          }],
+          isError: true
+        };
+      }
+
+      const to = versions.find(version => version.version === (args.toVersion ?? versions[versions.length - 1].version));
+      const fromNumber = args.fromVersion ?? (to && versions[versions.indexOf(to) - 1]?.version);
+      const from = versions.find(version => version.version === fromNumber);
+      if (!from || !to || from === to) {
+        const available = versions.map(version => version.version).join(', ');
+        return {
+          content: [{
+            type: 'text',
+            text: `Two different versions of ${args.nctId} are needed to compare (available versions: ${available})`
+          }],
+          isError: true
+        };
+      }
+
+      const [before, after] = await Promise.all([
+        this.fetchStudyVersion(args.nctId, from.version, args.noCache),
+        this.fetchStudyVersion(args.nctId, to.version, args.noCache)
+      ]);
+      if (!before || !after) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Version ${before ? to.version : from.version} of ${args.nctId} could not be retrieved`
+          }],
+          isError: true
+        };
+      }
+
+      const changes = diffRecords(before, after);
+      // Module paths follow the Study interface, e.g. "protocolSection.outcomesModule"
+      const changedModules = [...new Set(changes.map(change => change.field.split(/[.[]/).slice(0, 2).join('.')))];
+
+      return this.toolResult({
+        nctId: args.nctId,
+        title: after.protocolSection.identificationModule.briefTitle,
+        fromVersion: from,
+        toVersion: to,
+        summary: summarizeStudyChanges(before, after),
+        changedModules,
+        changeCount: changes.length,
+        changes
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -854,47 +2442,296 @@ export class ClinicalTrialsServer {
       'pageSize': args?.pageSize || 10
     };
 
+    if ((args?.latitude === undefined) !== (args?.longitude === undefined)) {
+      throw new McpError(ErrorCode.InvalidParams, 'latitude and longitude must be given together');
+    }
+    for (const [name, value, limit] of [['latitude', args?.latitude, 90], ['longitude', args?.longitude, 180]] as const) {
+      if (value !== undefined && !(typeof value === 'number' && Math.abs(value) <= limit)) {
+        throw new McpError(ErrorCode.InvalidParams, `${name} must be a number from -${limit} to ${limit}, got: ${value}`);
+      }
+    }
+    if (args?.distance !== undefined && !(typeof args.distance === 'number' && args.distance > 0 && Number.isFinite(args.distance))) {
+      throw new McpError(ErrorCode.InvalidParams, `distance must be a number greater than 0, got: ${args.distance}`);
+    }
+
+    const unit: DistanceUnit = args?.distanceUnit === 'km' ? 'km' : 'mi';
+    const distance = args?.distance || DEFAULT_SEARCH_RADIUS;
+
+    // A radius search needs a center: explicit coordinates, a ZIP code, or a city with a distance
+    let center: (GeoPoint & { name?: string; source: string }) | undefined;
+    if (args?.latitude !== undefined) {
+      center = { lat: args.latitude, lon: args.longitude, source: 'coordinates' };
+    } else if (args?.zip || (args?.city && args?.distance)) {
+      center = await resolvePlace({ city: args.city, state: args.state, country: args.country, zip: args.zip });
+      if (!center) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Could not resolve ${args.zip ? `postal code ${args.zip}` : `city ${args.city}`} in the offline gazetteer`
+          }],
+          isError: true
+        };
+      }
+    }
+
     // Build location query
     let locationQuery = '';
-    if (args?.country) locationQuery += args.country;
-    if (args?.state) locationQuery += (locationQuery ? ', ' : '') + args.state;
-    if (args?.city) locationQuery += (locationQuery ? ', ' : '') + args.city;
-    if (args?.facilityName) locationQuery += (locationQuery ? ', ' : '') + args.facilityName;
+    if (center) {
+      params['filter.geo'] = formatGeoFilter({ lat: center.lat, lon: center.lon, distance, unit });
+      locationQuery = args?.facilityName || '';
+    } else {
+      if (args?.country) locationQuery += args.country;
+      if (args?.state) locationQuery += (locationQuery ? ', ' : '') + args.state;
+      if (args?.city) locationQuery += (locationQuery ? ', ' : '') + args.city;
+      if (args?.facilityName) locationQuery += (locationQuery ? ', ' : '') + args.facilityName;
+    }
 
     if (locationQuery) {
       params['query.locn'] = locationQuery;
     }
 
-    if (args?.distance && args?.city) {
-      params['filter.distance'] = args.distance;
+    try {
+      const response = await this.fetchStudies(params, args);
+      
+      const studies = response.studies || [];
+      let results: any[] = studies.map(study => ({
+        ...this.formatStudySummary(study),
+        locations: study.protocolSection.contactsLocationsModule?.locations?.slice(0, 3) || []
+      }));
+
+      // Sorted within this call only; pages fetched with pageToken are ordered independently
+      if (center) {
+        results = studies
+          .map(study => this.withNearestSite(study, center!, unit))
+          .sort((a, b) => (a.nearestSite?.distance ?? Infinity) - (b.nearestSite?.distance ?? Infinity));
+      }
+
+      return this.toolResult({
+        searchCriteria: {
+          locationQuery: locationQuery || undefined,
+          center,
+          distance: center ? distance : undefined,
+          distanceUnit: center ? unit : undefined
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Summarize a study for a radius search: its nearest site and up to three
+   * sites ordered by distance from the center.
+   */
+  private withNearestSite(study: Study, center: GeoPoint, unit: DistanceUnit) {
+    const round = (distance: number) => Math.round(distance * 10) / 10;
+    const locations = (study.protocolSection.contactsLocationsModule?.locations || [])
+      .filter(location => location.geoPoint)
+      .map(location => ({ ...location, distance: round(nearestLocation([location], center, unit)!.distance) }))
+      .sort((a, b) => a.distance - b.distance);
+    const nearest = locations[0];
+
+    return {
+      ...this.formatStudySummary(study),
+      nearestSite: nearest && {
+        facility: nearest.facility,
+        city: nearest.city,
+        state: nearest.state,
+        country: nearest.country,
+        status: nearest.status,
+        distance: nearest.distance,
+        unit
+      },
+      locations: locations.slice(0, 3)
+    };
+  }
+
+  public async handleSearchByCondition(args: any) {
+    if (!args?.condition) {
+      throw new McpError(ErrorCode.InvalidParams, 'Condition parameter is required');
+    }
+
+    const expansion = this.expandConditionArgs(args);
+    const params: any = {
+      'format': 'json',
+      'pageSize': args?.pageSize || 10,
+      'query.cond': expansion.query
+    };
+
+    if (args?.phase) {
+      params['filter.phase'] = args.phase;
+    }
+
+    if (args?.recruitmentStatus) {
+      params['filter.overallStatus'] = args.recruitmentStatus;
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => ({
         ...this.formatStudySummary(study),
-        locations: study.protocolSection.contactsLocationsModule?.locations?.slice(0, 3) || []
+        conditions: study.protocolSection.conditionsModule?.conditions || [],
+        eligibility: {
+          sex: study.protocolSection.eligibilityModule?.sex || 'Unknown',
+          minimumAge: study.protocolSection.eligibilityModule?.minimumAge || 'Not specified',
+          maximumAge: study.protocolSection.eligibilityModule?.maximumAge || 'Not specified',
+          healthyVolunteers: study.protocolSection.eligibilityModule?.healthyVolunteers || false
+        }
       }));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: { locationQuery, distance: args?.distance },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: {
+          condition: args.condition,
+          phase: args.phase,
+          recruitmentStatus: args.recruitmentStatus,
+          conditionExpansion: expansion
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleGetTrialStatistics(args: any) {
+    const groupBy: StatisticsField | undefined = args?.groupBy;
+    const crossBy: StatisticsField | undefined = args?.crossBy;
+    for (const field of [groupBy, crossBy]) {
+      if (field !== undefined && !Object.hasOwn(STATISTICS_FIELDS, field)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown statistics field: ${field}. Valid fields: ${Object.keys(STATISTICS_FIELDS).join(', ')}`
+        );
+      }
+    }
+    if (crossBy && (!groupBy || crossBy === groupBy)) {
+      throw new McpError(ErrorCode.InvalidParams, 'crossBy needs a different groupBy field to cross-tabulate against');
+    }
+
+    // Without groupBy, report the status, phase and study type breakdowns
+    const tallies: Record<string, StudyTally> = groupBy
+      ? { [groupBy]: new StudyTally(groupBy, crossBy) }
+      : { status: new StudyTally('status'), phase: new StudyTally('phase'), studyType: new StudyTally('studyType') };
+    const fields = groupBy ? [groupBy, ...(crossBy ? [crossBy] : [])] : Object.keys(tallies);
+
+    const params = this.buildStatisticsParams(args?.filters, fields.map(field => STATISTICS_FIELDS[field].apiField));
+
+    try {
+      const progress = { totalCount: 0 };
+      let analyzedStudies = 0;
+      for await (const study of this.walkStudies(params, STATISTICS_MAX_STUDIES, progress, args?.noCache, STATISTICS_PAGE_SIZE)) {
+        for (const tally of Object.values(tallies)) {
+          tally.add(study);
+        }
+        analyzedStudies++;
+      }
+
+      const statistics = groupBy
+        ? tallies[groupBy].result()
+        : {
+          totalStudies: analyzedStudies,
+          byStatus: tallies.status.result(),
+          byPhase: tallies.phase.result(),
+          byStudyType: tallies.studyType.result()
+        };
+
+      return this.toolResult({
+        totalStudies: progress.totalCount,
+        analyzedStudies,
+        complete: analyzedStudies >= progress.totalCount,
+        groupBy: groupBy || 'none',
+        crossBy,
+        filters: args?.filters || {},
+        statistics
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleGetTrialTrends(args: any) {
+    const dateField: TrendDateField = args?.dateField || 'startYear';
+    if (!Object.hasOwn(TREND_DATE_FIELDS, dateField)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown dateField: ${dateField}. Valid fields: ${Object.keys(TREND_DATE_FIELDS).join(', ')}`
+      );
+    }
+    const splitBy: StatisticsField | undefined = args?.splitBy;
+    if (splitBy !== undefined && !['phase', 'sponsorClass', 'status'].includes(splitBy)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown splitBy: ${splitBy}. Valid fields: phase, sponsorClass, status`);
+    }
+    if (args?.fromYear !== undefined && args?.toYear !== undefined && args.fromYear > args.toYear) {
+      throw new McpError(ErrorCode.InvalidParams, 'fromYear must not be after toYear');
+    }
+
+    const tally = new TrendTally(dateField, splitBy, { fromYear: args?.fromYear, toYear: args?.toYear });
+    const params = this.buildStatisticsParams(args?.filters, [
+      TREND_DATE_FIELDS[dateField].apiField,
+      ...(splitBy ? [STATISTICS_FIELDS[splitBy].apiField] : [])
+    ]);
+
+    try {
+      const progress = { totalCount: 0 };
+      let analyzedStudies = 0;
+      for await (const study of this.walkStudies(params, STATISTICS_MAX_STUDIES, progress, args?.noCache, STATISTICS_PAGE_SIZE)) {
+        tally.add(study);
+        analyzedStudies++;
+      }
+
+      return this.toolResult({
+        dateField,
+        splitBy,
+        filters: args?.filters || {},
+        totalStudies: progress.totalCount,
+        analyzedStudies,
+        complete: analyzedStudies >= progress.totalCount,
+        undatedStudies: tally.undated,
+        outOfRangeStudies: tally.outOfRange,
+        ...tally.result()
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -903,57 +2740,71 @@ export class ClinicalTrialsServer {
     }
   }
 
-  public async handleSearchByCondition(args: any) {
+  public async handleGetCompetitiveLandscape(args: any) {
     if (!args?.condition) {
       throw new McpError(ErrorCode.InvalidParams, 'Condition parameter is required');
     }
-
-    const params: any = {
-      'format': 'json',
-      'pageSize': args?.pageSize || 10,
-      'query.cond': args.condition
-    };
-
-    if (args?.phase) {
-      params['filter.phase'] = args.phase;
+    if (args.format !== undefined && !['json', 'markdown'].includes(args.format)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown format: ${args.format}. Valid formats: json, markdown`);
     }
 
-    if (args?.recruitmentStatus) {
-      params['filter.overallStatus'] = args.recruitmentStatus;
+    const params = this.buildStatisticsParams({ condition: args.condition }, [
+      'LeadSponsorName', 'LeadSponsorClass', 'InterventionName', 'InterventionType', 'Phase', 'OverallStatus', 'StartDate'
+    ]);
+    if (args.sponsor) {
+      params['query.spons'] = args.sponsor;
     }
+    if (args.intervention) {
+      params['query.intr'] = args.intervention;
+    }
+
+    const landscape = new CompetitiveLandscape({
+      exclude: args.includeComparators ? undefined : REFERENCE_ARM_PATTERN,
+      interventionTypes: args.interventionTypes
+    });
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
-      
-      const studies = response.data.studies || [];
-      const results = studies.map(study => ({
-        ...this.formatStudySummary(study),
-        conditions: study.protocolSection.conditionsModule?.conditions || [],
-        eligibility: {
-          sex: study.protocolSection.eligibilityModule?.sex || 'Unknown',
-          minimumAge: study.protocolSection.eligibilityModule?.minimumAge || 'Not specified',
-          maximumAge: study.protocolSection.eligibilityModule?.maximumAge || 'Not specified',
-          healthyVolunteers: study.protocolSection.eligibilityModule?.healthyVolunteers || false
-        }
-      }));
+      const progress = { totalCount: 0 };
+      let analyzedStudies = 0;
+      for await (const study of this.walkStudies(params, STATISTICS_MAX_STUDIES, progress, args.noCache, STATISTICS_PAGE_SIZE)) {
+        landscape.add(study);
+        analyzedStudies++;
+      }
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: { condition: args.condition, phase: args.phase, recruitmentStatus: args.recruitmentStatus },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      const rows = landscape.rows();
+      const shown = rows.slice(0, Math.min(args.limit || DEFAULT_LANDSCAPE_ROWS, MAX_LANDSCAPE_ROWS));
+      const markdown = args.format === 'markdown' ? landscapeMarkdown(shown) : undefined;
+      const result = this.toolResult({
+        condition: args.condition,
+        filters: {
+          sponsor: args.sponsor,
+          intervention: args.intervention,
+          interventionTypes: args.interventionTypes,
+          includeComparators: args.includeComparators || false
+        },
+        totalStudies: progress.totalCount,
+        analyzedStudies,
+        complete: analyzedStudies >= progress.totalCount,
+        studiesWithoutInterventions: landscape.studiesWithoutInterventions,
+        sponsorCount: landscape.sponsorCount,
+        interventionCount: landscape.interventionCount,
+        rowCount: rows.length,
+        rowsShown: shown.length,
+        rows: shown,
+        markdown
+      });
+
+      // The table also goes in its own text block so clients can show it as is
+      if (markdown) {
+        result.content.push({ type: 'text', text: markdown });
+      }
+      return result;
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -962,54 +2813,153 @@ export class ClinicalTrialsServer {
     }
   }
 
-  public async handleGetTrialStatistics(args: any) {
-    // For statistics, we'll make a broader search and analyze the results
+  /**
+   * The query.cond expression for a condition search: the condition as
+   * typed, plus its synonyms and narrower conditions only on request.
+   */
+  private expandConditionArgs(args: any): ConditionExpansion {
+    if (!args.expandSynonyms && !args.includeNarrower) {
+      return { term: args.condition, synonyms: [], narrowerTerms: [], query: args.condition };
+    }
+    return expandCondition(args.condition, { synonyms: Boolean(args.expandSynonyms), narrower: args.includeNarrower });
+  }
+
+  /**
+   * Query parameters for the statistics tools: the shared filters, and only
+   * the API fields the tool counts so full-set paging stays cheap.
+   */
+  private buildStatisticsParams(filters: any, apiFields: string[]) {
     const params: any = {
       'format': 'json',
-      'pageSize': 100 // Get more results for better statistics
+      'fields': [...new Set(['NCTId', ...apiFields])].join(',')
     };
 
-    // Apply filters if provided
-    if (args?.filters?.condition) {
-      params['query.cond'] = args.filters.condition;
+    if (filters?.condition) {
+      params['query.cond'] = filters.condition;
     }
-    if (args?.filters?.phase) {
-      params['filter.phase'] = args.filters.phase;
+    if (filters?.phase) {
+      params['filter.phase'] = filters.phase;
     }
-    if (args?.filters?.status) {
-      params['filter.overallStatus'] = args.filters.status;
+    if (filters?.status) {
+      params['filter.overallStatus'] = filters.status;
     }
+    return params;
+  }
 
-    try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
-      
-      const studies = response.data.studies || [];
-      const stats = this.calculateStatistics(studies, args?.groupBy);
+  /**
+   * Fetch studies from the /studies endpoint, honouring the shared pagination
+   * arguments. With `pageToken` a single page is resumed; with `maxResults`
+   * pages are walked server-side until the cap or the last page is reached.
+   */
+  private async fetchStudies(params: any, args: any): Promise<StudySearchResponse> {
+    const pageParams: any = { ...params };
+    if (args?.pageToken) {
+      pageParams.pageToken = args.pageToken;
+    }
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            totalStudies: response.data.totalCount || 0,
-            analyzedStudies: studies.length,
-            groupBy: args?.groupBy || 'none',
-            filters: args?.filters || {},
-            statistics: stats
-          }, null, 2)
-        }]
-      };
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        return {
-          content: [{
-            type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
-          }],
-          isError: true
-        };
+    if (!args?.maxResults) {
+      return this.getStudies(pageParams, args?.noCache);
+    }
+
+    const maxResults = Math.min(Math.max(1, Math.floor(args.maxResults)), MAX_RESULTS_CAP);
+    const studies: Study[] = [];
+    let totalCount = 0;
+    let nextPageToken: string | undefined = pageParams.pageToken;
+
+    do {
+      const page = await this.getStudies({
+        ...pageParams,
+        pageSize: Math.min(MAX_PAGE_SIZE, maxResults - studies.length),
+        pageToken: nextPageToken,
+        // Only the first page needs to report the total
+        countTotal: studies.length === 0 ? true : undefined
+      }, args?.noCache);
+
+      studies.push(...(page.studies || []));
+      totalCount = totalCount || page.totalCount || 0;
+      nextPageToken = page.nextPageToken;
+    } while (nextPageToken && studies.length < maxResults);
+
+    return { studies, totalCount, nextPageToken };
+  }
+
+  /**
+   * Single entry point to the configured study source. Responses are served from
+   * the cache unless `noCache` is set; lookups by NCT ID and searches are
+   * cached with separate TTLs.
+   */
+  private async getStudies(params: any, noCache = false): Promise<StudySearchResponse> {
+    const endpoint: CacheEndpoint = params['filter.ids'] ? 'study' : 'search';
+    const key = ResponseCache.keyFor('/studies', params);
+
+    if (!noCache && this.cache.isEnabled(endpoint)) {
+      const cached = await this.cache.get<StudySearchResponse>(key);
+      if (cached) {
+        return cached;
       }
-      throw error;
     }
+
+    const response = await this.studySource.searchStudies(params);
+    await this.cache.set(key, response, endpoint);
+    return response;
+  }
+
+  /**
+   * Versions of a study's record, oldest first. Past versions never change,
+   * so history lookups are cached like single-study lookups.
+   */
+  private async fetchStudyHistory(nctId: string, noCache = false): Promise<StudyVersion[] | undefined> {
+    return this.cached(`/studies/${nctId}/history`, noCache, () => this.studySource.getStudyHistory(nctId));
+  }
+
+  private async fetchStudyVersion(nctId: string, version: number, noCache = false): Promise<Study | undefined> {
+    return this.cached(`/studies/${nctId}/history/${version}`, noCache, () => this.studySource.getStudyVersion(nctId, version));
+  }
+
+  private async cached<T>(url: string, noCache: boolean, load: () => Promise<T | undefined>): Promise<T | undefined> {
+    const key = ResponseCache.keyFor(url, {});
+    if (!noCache && this.cache.isEnabled('study')) {
+      const cached = await this.cache.get<T>(key);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const value = await load();
+    if (value !== undefined) {
+      await this.cache.set(key, value, 'study');
+    }
+    return value;
+  }
+
+  /**
+   * Wrap a tool payload as structuredContent, keeping the JSON text block
+   * for clients that predate structured tool output.
+   */
+  private toolResult(data: Record<string, any>) {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify(data, null, 2)
+      }],
+      structuredContent: data
+    };
+  }
+
+  private formatApiError(error: AxiosError): string {
+    if (error.code === CIRCUIT_OPEN_CODE) {
+      return `Clinical Trials API unavailable: ${error.message}`;
+    }
+
+    let message = `Clinical Trials API error: ${(error.response?.data as any)?.message || error.message}`;
+    const retries = retryAttempts(error);
+    if (retries > 0) {
+      message += ` (gave up after ${retries} of ${RESILIENCE_OPTIONS.maxRetries} retries)`;
+    }
+    if (error.response?.status === 429) {
+      message += ` (rate limited by ClinicalTrials.gov; client limit is ${RESILIENCE_OPTIONS.requestsPerSecond} requests/second)`;
+    }
+    return message;
   }
 
   private formatStudySummary(study: Study) {
@@ -1025,73 +2975,438 @@ export class ClinicalTrialsServer {
     };
   }
 
-  private formatDetailedStudy(study: Study) {
-    return {
+  /**
+   * Look up a single study by NCT ID. Resolves to undefined when the API
+   * returns no matching record.
+   */
+  private async fetchStudyById(nctId: string, noCache = false): Promise<Study | undefined> {
+    const response = await this.getStudies({
+      format: 'json',
+      'filter.ids': nctId,
+      pageSize: 1
+    }, noCache);
+
+    const study = response.studies?.[0];
+    if (study) {
+      this.rememberStudy(study);
+    }
+    return study;
+  }
+
+  private rememberStudy(study: Study) {
+    const { nctId, briefTitle } = study.protocolSection.identificationModule;
+    this.recentStudies.delete(nctId);
+    this.recentStudies.set(nctId, briefTitle);
+    if (this.recentStudies.size > MAX_RECENT_STUDIES) {
+      this.recentStudies.delete(this.recentStudies.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Look up several studies by NCT ID, requesting them in chunks that fit in
+   * a single page. Studies the API does not return are simply absent.
+   */
+  private async fetchStudiesByIds(nctIds: string[], noCache = false): Promise<Study[]> {
+    const studies: Study[] = [];
+    for (let i = 0; i < nctIds.length; i += MAX_PAGE_SIZE) {
+      const chunk = nctIds.slice(i, i + MAX_PAGE_SIZE);
+      const response = await this.getStudies({
+        format: 'json',
+        'filter.ids': chunk.join(','),
+        pageSize: chunk.length
+      }, noCache);
+      studies.push(...(response.studies || []));
+    }
+    return studies;
+  }
+
+  private formatDetailedStudy(study: Study, sections: string[] = STUDY_DETAIL_SECTIONS) {
+    const protocol = study.protocolSection;
+    const details: { [section: string]: any } = {
       identification: {
-        nctId: study.protocolSection.identificationModule.nctId,
-        briefTitle: study.protocolSection.identificationModule.briefTitle,
-        officialTitle: study.protocolSection.identificationModule.officialTitle
+        nctId: protocol.identificationModule.nctId,
+        briefTitle: protocol.identificationModule.briefTitle,
+        officialTitle: protocol.identificationModule.officialTitle,
+        acronym: protocol.identificationModule.acronym,
+        organization: protocol.identificationModule.organization?.fullName
       },
       status: {
-        overallStatus: study.protocolSection.statusModule.overallStatus,
-        startDate: study.protocolSection.statusModule.startDateStruct?.date,
-        primaryCompletionDate: study.protocolSection.statusModule.primaryCompletionDateStruct?.date
+        overallStatus: protocol.statusModule.overallStatus,
+        whyStopped: protocol.statusModule.whyStopped,
+        startDate: protocol.statusModule.startDateStruct?.date,
+        primaryCompletionDate: protocol.statusModule.primaryCompletionDateStruct?.date,
+        completionDate: protocol.statusModule.completionDateStruct?.date,
+        firstPosted: protocol.statusModule.studyFirstPostDateStruct?.date,
+        lastUpdated: protocol.statusModule.lastUpdatePostDateStruct?.date
       },
       design: {
-        studyType: study.protocolSection.designModule?.studyType,
-        phases: study.protocolSection.designModule?.phases
+        studyType: protocol.designModule?.studyType,
+        phases: protocol.designModule?.phases,
+        allocation: protocol.designModule?.designInfo?.allocation,
+        interventionModel: protocol.designModule?.designInfo?.interventionModel,
+        primaryPurpose: protocol.designModule?.designInfo?.primaryPurpose,
+        masking: protocol.designModule?.designInfo?.maskingInfo?.masking,
+        enrollment: protocol.designModule?.enrollmentInfo
+      },
+      sponsor: {
+        leadSponsor: protocol.sponsorCollaboratorsModule?.leadSponsor,
+        collaborators: protocol.sponsorCollaboratorsModule?.collaborators || []
+      },
+      conditions: {
+        conditions: protocol.conditionsModule?.conditions || [],
+        keywords: protocol.conditionsModule?.keywords || []
+      },
+      description: {
+        briefSummary: protocol.descriptionModule?.briefSummary,
+        detailedDescription: protocol.descriptionModule?.detailedDescription
+      },
+      armsInterventions: {
+        armGroups: protocol.armsInterventionsModule?.armGroups || [],
+        interventions: protocol.armsInterventionsModule?.interventions || []
+      },
+      outcomes: {
+        primaryOutcomes: protocol.outcomesModule?.primaryOutcomes || [],
+        secondaryOutcomes: protocol.outcomesModule?.secondaryOutcomes || [],
+        otherOutcomes: protocol.outcomesModule?.otherOutcomes || []
+      },
+      eligibility: protocol.eligibilityModule && {
+        ...protocol.eligibilityModule,
+        parsedCriteria: parseEligibilityCriteria(protocol.eligibilityModule.eligibilityCriteria)
+      },
+      contacts: {
+        centralContacts: protocol.contactsLocationsModule?.centralContacts || [],
+        overallOfficials: protocol.contactsLocationsModule?.overallOfficials || []
       },
-      sponsor: study.protocolSection.sponsorCollaboratorsModule?.leadSponsor,
-      conditions: study.protocolSection.conditionsModule?.conditions,
-      eligibility: study.protocolSection.eligibilityModule,
-      locations: study.protocolSection.contactsLocationsModule?.locations?.slice(0, 10)
+      locations: protocol.contactsLocationsModule?.locations?.slice(0, 10),
+      references: {
+        references: protocol.referencesModule?.references || [],
+        seeAlsoLinks: protocol.referencesModule?.seeAlsoLinks || []
+      },
+      oversight: protocol.oversightModule,
+      ipdSharing: protocol.ipdSharingStatementModule
     };
+
+    const selected: { [section: string]: any } = {};
+    for (const section of sections) {
+      selected[section] = details[section];
+    }
+    return selected;
   }
 
-  private calculateStatistics(studies: Study[], groupBy?: string) {
-    if (!groupBy) {
-      return {
-        totalStudies: studies.length,
-        byStatus: this.groupByField(studies, 'status'),
-        byPhase: this.groupByField(studies, 'phase'),
-        byStudyType: this.groupByField(studies, 'studyType')
+  private formatStudyResults(resultsSection: StudyResultsSection, sections: string[] = STUDY_RESULT_SECTIONS): StudyResults {
+    const results: StudyResults = {};
+
+    if (sections.includes('participantFlow') && resultsSection.participantFlowModule) {
+      const flow = resultsSection.participantFlowModule;
+      const arms = flow.groups || [];
+      results.participantFlow = {
+        recruitmentDetails: flow.recruitmentDetails,
+        preAssignmentDetails: flow.preAssignmentDetails,
+        arms,
+        periods: (flow.periods || []).map(period => ({
+          title: period.title,
+          milestones: (period.milestones || []).map(milestone => ({
+            type: milestone.type,
+            counts: (milestone.achievements || []).map(achievement =>
+              this.toArmCount(arms, achievement.groupId, achievement.numSubjects))
+          })),
+          dropWithdraws: (period.dropWithdraws || []).map(dropWithdraw => ({
+            type: dropWithdraw.type,
+            counts: (dropWithdraw.reasons || []).map(reason =>
+              this.toArmCount(arms, reason.groupId, reason.numSubjects))
+          }))
+        }))
       };
     }
 
-    return this.groupByField(studies, groupBy);
+    if (sections.includes('baselineCharacteristics') && resultsSection.baselineCharacteristicsModule) {
+      const baseline = resultsSection.baselineCharacteristicsModule;
+      const arms = baseline.groups || [];
+      results.baselineCharacteristics = {
+        populationDescription: baseline.populationDescription,
+        arms,
+        participants: this.formatDenoms(arms, baseline.denoms),
+        measures: (baseline.measures || []).map(measure => ({
+          title: measure.title,
+          paramType: measure.paramType,
+          dispersionType: measure.dispersionType,
+          unitOfMeasure: measure.unitOfMeasure,
+          categories: this.formatResultClasses(arms, measure.classes)
+        }))
+      };
+    }
+
+    if (sections.includes('outcomeMeasures') && resultsSection.outcomeMeasuresModule) {
+      results.outcomeMeasures = (resultsSection.outcomeMeasuresModule.outcomeMeasures || []).map(outcome => {
+        const arms = outcome.groups || [];
+        return {
+          type: outcome.type,
+          title: outcome.title,
+          description: outcome.description,
+          timeFrame: outcome.timeFrame,
+          populationDescription: outcome.populationDescription,
+          reportingStatus: outcome.reportingStatus,
+          paramType: outcome.paramType,
+          dispersionType: outcome.dispersionType,
+          unitOfMeasure: outcome.unitOfMeasure,
+          arms,
+          participants: this.formatDenoms(arms, outcome.denoms),
+          categories: this.formatResultClasses(arms, outcome.classes),
+          analyses: (outcome.analyses || []).map(analysis => ({
+            arms: (analysis.groupIds || []).map(groupId => this.armTitle(arms, groupId)),
+            description: analysis.groupDescription,
+            statisticalMethod: analysis.statisticalMethod,
+            pValue: analysis.pValue,
+            paramType: analysis.paramType,
+            paramValue: analysis.paramValue,
+            ciPctValue: analysis.ciPctValue,
+            ciNumSides: analysis.ciNumSides,
+            ciLowerLimit: analysis.ciLowerLimit,
+            ciUpperLimit: analysis.ciUpperLimit,
+            nonInferiorityType: analysis.nonInferiorityType,
+            comment: analysis.estimateComment
+          }))
+        };
+      });
+    }
+
+    if (sections.includes('adverseEvents') && resultsSection.adverseEventsModule) {
+      results.adverseEvents = this.formatAdverseEvents(resultsSection.adverseEventsModule);
+    }
+
+    return results;
   }
 
-  private groupByField(studies: Study[], field: string) {
-    const groups: { [key: string]: number } = {};
+  private formatAdverseEvents(module: NonNullable<StudyResultsSection['adverseEventsModule']>): AdverseEventResults {
+    const arms = module.eventGroups || [];
+    const formatEvent = (event: AdverseEventRaw): AdverseEvent => ({
+      term: event.term,
+      organSystem: event.organSystem,
+      sourceVocabulary: event.sourceVocabulary,
+      assessmentType: event.assessmentType,
+      arms: (event.stats || []).map(stat => ({
+        groupId: stat.groupId,
+        arm: this.armTitle(arms, stat.groupId),
+        numEvents: stat.numEvents ?? null,
+        numAffected: stat.numAffected ?? null,
+        numAtRisk: stat.numAtRisk ?? null
+      }))
+    });
 
-    studies.forEach(study => {
-      let value: string | string[];
-      
-      switch (field) {
-        case 'status':
-          value = study.protocolSection.statusModule.overallStatus;
-          break;
-        case 'phase':
-          value = study.protocolSection.designModule?.phases?.[0] || 'Not specified';
-          break;
-        case 'studyType':
-          value = study.protocolSection.designModule?.studyType || 'Unknown';
-          break;
-        case 'condition':
-          value = study.protocolSection.conditionsModule?.conditions?.[0] || 'Not specified';
-          break;
-        case 'sponsor':
-          value = study.protocolSection.sponsorCollaboratorsModule?.leadSponsor?.name || 'Not specified';
-          break;
-        default:
-          value = 'Unknown';
+    return {
+      timeFrame: module.timeFrame,
+      description: module.description,
+      frequencyThreshold: module.frequencyThreshold,
+      arms: arms.map(group => ({
+        groupId: group.id,
+        arm: group.title,
+        description: group.description,
+        deaths: { affected: group.deathsNumAffected ?? null, atRisk: group.deathsNumAtRisk ?? null },
+        serious: { affected: group.seriousNumAffected ?? null, atRisk: group.seriousNumAtRisk ?? null },
+        other: { affected: group.otherNumAffected ?? null, atRisk: group.otherNumAtRisk ?? null }
+      })),
+      seriousEvents: (module.seriousEvents || []).map(formatEvent),
+      otherEvents: (module.otherEvents || []).map(formatEvent)
+    };
+  }
+
+  private pickReferenceArm(arms: string[], requested?: string): string | undefined {
+    if (requested) {
+      const match = arms.find(arm => arm.toLowerCase().includes(requested.toLowerCase()));
+      if (match) {
+        return match;
       }
+    }
+    return arms.find(arm => REFERENCE_ARM_PATTERN.test(arm)) || arms[0];
+  }
+
+  private compareAdverseEvents(adverseEvents: AdverseEventResults, eventType: string, referenceArm?: string): AdverseEventComparison[] {
+    const toComparison = (event: AdverseEvent, category: 'SERIOUS' | 'OTHER'): AdverseEventComparison => {
+      const reference = event.arms.find(arm => arm.arm === referenceArm);
+      const referenceRate = reference ? this.eventRate(reference.numAffected, reference.numAtRisk) : null;
+
+      return {
+        term: this.normalizeEventTerm(event.term),
+        organSystem: this.normalizeEventTerm(event.organSystem),
+        category,
+        arms: event.arms.map(arm => {
+          const rate = this.eventRate(arm.numAffected, arm.numAtRisk);
+          return {
+            arm: arm.arm,
+            numAffected: arm.numAffected,
+            numAtRisk: arm.numAtRisk,
+            rate,
+            riskDifference: rate !== null && referenceRate !== null && arm.arm !== referenceArm
+              ? this.roundRate(rate - referenceRate)
+              : null
+          };
+        })
+      };
+    };
+
+    const events: AdverseEventComparison[] = [];
+    if (eventType !== 'OTHER') {
+      events.push(...adverseEvents.seriousEvents.map(event => toComparison(event, 'SERIOUS')));
+    }
+    if (eventType !== 'SERIOUS') {
+      events.push(...adverseEvents.otherEvents.map(event => toComparison(event, 'OTHER')));
+    }
+
+    // Most frequent events first
+    const maxRate = (event: AdverseEventComparison) => Math.max(0, ...event.arms.map(arm => arm.rate ?? 0));
+    return events.sort((a, b) => maxRate(b) - maxRate(a));
+  }
+
+  /**
+   * Roll event counts up to system organ classes. Participants can report
+   * several events in the same class, so summed counts are an upper bound.
+   */
+  private aggregateByOrganSystem(events: AdverseEventComparison[], referenceArm?: string) {
+    const systems = new Map<string, Map<string, { numAffected: number; numAtRisk: number }>>();
+
+    events.forEach(event => {
+      const key = `${event.category}|${event.organSystem}`;
+      const arms = systems.get(key) || new Map();
+      event.arms.forEach(arm => {
+        const totals = arms.get(arm.arm) || { numAffected: 0, numAtRisk: 0 };
+        totals.numAffected += arm.numAffected ?? 0;
+        totals.numAtRisk = Math.max(totals.numAtRisk, arm.numAtRisk ?? 0);
+        arms.set(arm.arm, totals);
+      });
+      systems.set(key, arms);
+    });
+
+    return [...systems.entries()].map(([key, arms]) => {
+      const [category, organSystem] = key.split('|');
+      const reference = referenceArm ? arms.get(referenceArm) : undefined;
+      const referenceRate = reference ? this.eventRate(reference.numAffected, reference.numAtRisk) : null;
+
+      return {
+        organSystem,
+        category,
+        arms: [...arms.entries()].map(([arm, totals]) => {
+          const rate = this.eventRate(totals.numAffected, totals.numAtRisk);
+          return {
+            arm,
+            numAffected: totals.numAffected,
+            numAtRisk: totals.numAtRisk,
+            rate,
+            riskDifference: rate !== null && referenceRate !== null && arm !== referenceArm
+              ? this.roundRate(rate - referenceRate)
+              : null
+          };
+        })
+      };
+    });
+  }
+
+  /**
+   * Pool each event term across trials: every non-reference arm counts as
+   * treatment and every reference arm as comparator (crude pooled rates).
+   */
+  private poolAdverseEvents(comparisons: Array<{ nctId: string; referenceArm?: string; events: AdverseEventComparison[] }>) {
+    const pooled = new Map<string, {
+      term: string;
+      organSystem: string;
+      category: string;
+      trials: Set<string>;
+      treatment: { numAffected: number; numAtRisk: number };
+      reference: { numAffected: number; numAtRisk: number };
+    }>();
+
+    comparisons.forEach(comparison => {
+      comparison.events.forEach(event => {
+        const key = `${event.category}|${event.term.toLowerCase()}`;
+        const entry = pooled.get(key) || {
+          term: event.term,
+          organSystem: event.organSystem,
+          category: event.category,
+          trials: new Set<string>(),
+          treatment: { numAffected: 0, numAtRisk: 0 },
+          reference: { numAffected: 0, numAtRisk: 0 }
+        };
+        entry.trials.add(comparison.nctId);
+        event.arms.forEach(arm => {
+          const bucket = arm.arm === comparison.referenceArm ? entry.reference : entry.treatment;
+          bucket.numAffected += arm.numAffected ?? 0;
+          bucket.numAtRisk += arm.numAtRisk ?? 0;
+        });
+        pooled.set(key, entry);
+      });
+    });
+
+    return [...pooled.values()]
+      .map(entry => {
+        const treatmentRate = this.eventRate(entry.treatment.numAffected, entry.treatment.numAtRisk);
+        const referenceRate = this.eventRate(entry.reference.numAffected, entry.reference.numAtRisk);
+        return {
+          term: entry.term,
+          organSystem: entry.organSystem,
+          category: entry.category,
+          trials: [...entry.trials],
+          treatment: { ...entry.treatment, rate: treatmentRate },
+          reference: { ...entry.reference, rate: referenceRate },
+          riskDifference: treatmentRate !== null && referenceRate !== null
+            ? this.roundRate(treatmentRate - referenceRate)
+            : null
+        };
+      })
+      .sort((a, b) => b.trials.length - a.trials.length || (b.treatment.rate ?? 0) - (a.treatment.rate ?? 0));
+  }
+
+  private normalizeEventTerm(term: string): string {
+    const cleaned = (term || 'Unspecified').trim().replace(/\s+/g, ' ');
+    return cleaned.charAt(0).toUpperCase() + cleaned.slice(1).toLowerCase();
+  }
+
+  private eventRate(affected: number | null, atRisk: number | null): number | null {
+    if (affected === null || !atRisk) {
+      return null;
+    }
+    return this.roundRate(affected / atRisk);
+  }
 
-      const key = Array.isArray(value) ? value[0] : value;
-      groups[key] = (groups[key] || 0) + 1;
+  private roundRate(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+
+  private formatDenoms(arms: ResultGroupRaw[], denoms?: ResultCountsRaw[]): ArmCount[] {
+    // The first denominator is the number of participants analysed
+    return (denoms?.[0]?.counts || []).map(count => this.toArmCount(arms, count.groupId, count.value));
+  }
+
+  private formatResultClasses(arms: ResultGroupRaw[], classes?: ResultClassRaw[]): ResultCategory[] {
+    const categories: ResultCategory[] = [];
+    (classes || []).forEach(resultClass => {
+      (resultClass.categories || []).forEach(category => {
+        categories.push({
+          class: resultClass.title,
+          category: category.title,
+          values: (category.measurements || []).map(measurement => ({
+            groupId: measurement.groupId,
+            arm: this.armTitle(arms, measurement.groupId),
+            value: measurement.value,
+            spread: measurement.spread,
+            lowerLimit: measurement.lowerLimit,
+            upperLimit: measurement.upperLimit
+          }))
+        });
+      });
     });
+    return categories;
+  }
+
+  private toArmCount(arms: ResultGroupRaw[], groupId: string, value?: string): ArmCount {
+    const count = value !== undefined ? Number(value) : NaN;
+    return {
+      groupId,
+      arm: this.armTitle(arms, groupId),
+      count: Number.isFinite(count) ? count : null
+    };
+  }
 
-    return groups;
+  private armTitle(arms: ResultGroupRaw[], groupId: string): string {
+    return arms.find(arm => arm.id === groupId)?.title || groupId;
   }
 
   public async handleSearchBySponsor(args: any) {
@@ -1099,10 +3414,11 @@ export class ClinicalTrialsServer {
       throw new McpError(ErrorCode.InvalidParams, 'Sponsor parameter is required');
     }
 
+    const group = sponsorGroup(args.sponsor);
     const params: any = {
       'format': 'json',
       'pageSize': args?.pageSize || 10,
-      'query.spons': args.sponsor
+      'query.spons': args.includeAliases && group ? sponsorAliasQuery(group) : args.sponsor
     };
 
     if (args?.sponsorType) {
@@ -1110,31 +3426,35 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => ({
         ...this.formatStudySummary(study),
-        sponsorDetails: study.protocolSection.sponsorCollaboratorsModule?.leadSponsor
+        sponsorDetails: study.protocolSection.sponsorCollaboratorsModule?.leadSponsor && {
+          ...study.protocolSection.sponsorCollaboratorsModule.leadSponsor,
+          normalizedName: normalizeSponsor(study.protocolSection.sponsorCollaboratorsModule.leadSponsor.name)
+        }
       }));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: { sponsor: args.sponsor, sponsorType: args.sponsorType },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: {
+          sponsor: args.sponsor,
+          sponsorType: args.sponsorType,
+          normalizedSponsor: normalizeSponsor(args.sponsor),
+          searchedAliases: args.includeAliases && group ? [group.canonical, ...group.aliases] : undefined
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1163,28 +3483,24 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => this.formatStudySummary(study));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: { intervention: args.intervention, interventionType: args.interventionType, phase: args.phase },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: { intervention: args.intervention, interventionType: args.interventionType, phase: args.phase },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1200,8 +3516,9 @@ export class ClinicalTrialsServer {
       'filter.overallStatus': 'RECRUITING'
     };
 
-    if (args?.condition) {
-      params['query.cond'] = args.condition;
+    const expansion = args?.condition ? this.expandConditionArgs(args) : undefined;
+    if (expansion) {
+      params['query.cond'] = expansion.query;
     }
 
     if (args?.location) {
@@ -1213,9 +3530,9 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => ({
         ...this.formatStudySummary(study),
         eligibility: {
@@ -1227,28 +3544,25 @@ export class ClinicalTrialsServer {
         locations: study.protocolSection.contactsLocationsModule?.locations?.slice(0, 2) || []
       }));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: { 
-              recruitmentStatus: 'RECRUITING',
-              condition: args?.condition,
-              location: args?.location,
-              ageGroup: args?.ageGroup
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: { 
+          recruitmentStatus: 'RECRUITING',
+          condition: args?.condition,
+          conditionExpansion: expansion,
+          location: args?.location,
+          ageGroup: args?.ageGroup
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1284,9 +3598,9 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => ({
         ...this.formatStudySummary(study),
         dates: {
@@ -1295,29 +3609,25 @@ export class ClinicalTrialsServer {
         }
       }));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: {
-              startDateFrom: args?.startDateFrom,
-              startDateTo: args?.startDateTo,
-              completionDateFrom: args?.completionDateFrom,
-              completionDateTo: args?.completionDateTo,
-              condition: args?.condition
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: {
+          startDateFrom: args?.startDateFrom,
+          startDateTo: args?.startDateTo,
+          completionDateFrom: args?.completionDateFrom,
+          completionDateTo: args?.completionDateTo,
+          condition: args?.condition
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1347,38 +3657,116 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => ({
         ...this.formatStudySummary(study),
         completionDate: study.protocolSection.statusModule.primaryCompletionDateStruct?.date,
         hasResults: true
       }));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: {
-              status: 'COMPLETED',
-              hasResults: true,
-              condition: args?.condition,
-              intervention: args?.intervention,
-              completedAfter: args?.completedAfter
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: {
+          status: 'COMPLETED',
+          hasResults: true,
+          condition: args?.condition,
+          intervention: args?.intervention,
+          completedAfter: args?.completedAfter
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleCompareAdverseEvents(args: any) {
+    const nctIds: string[] = Array.isArray(args?.nctIds) ? args.nctIds : [];
+    if (nctIds.length === 0 || nctIds.some(nctId => !/^NCT\d{8}$/.test(nctId))) {
+      throw new McpError(ErrorCode.InvalidParams, 'nctIds must be a non-empty list of valid NCT IDs (format: NCT########)');
+    }
+    if (nctIds.length > MAX_COMPARED_STUDIES) {
+      throw new McpError(ErrorCode.InvalidParams, `At most ${MAX_COMPARED_STUDIES} NCT IDs can be compared at once`);
+    }
+
+    const eventType = args?.eventType || 'ALL';
+    const minRate = typeof args?.minRate === 'number' ? args.minRate : 0;
+
+    try {
+      const studies = await this.fetchStudiesByIds(nctIds, args?.noCache);
+      const byId = new Map(studies.map(study => [study.protocolSection.identificationModule.nctId, study]));
+
+      const notFound: string[] = [];
+      const withoutResults: string[] = [];
+      const comparisons: any[] = [];
+
+      for (const nctId of nctIds) {
+        const study = byId.get(nctId);
+        if (!study) {
+          notFound.push(nctId);
+          continue;
+        }
+        const module = study.resultsSection?.adverseEventsModule;
+        if (!module) {
+          withoutResults.push(nctId);
+          continue;
+        }
+
+        const adverseEvents = this.formatAdverseEvents(module);
+        const referenceArm = this.pickReferenceArm(adverseEvents.arms.map(arm => arm.arm), args?.referenceArm);
+        const events = this.compareAdverseEvents(adverseEvents, eventType, referenceArm)
+          .filter(event => event.arms.some(arm => (arm.rate ?? 0) >= minRate));
+
+        comparisons.push({
+          nctId,
+          title: study.protocolSection.identificationModule.briefTitle,
+          timeFrame: adverseEvents.timeFrame,
+          frequencyThreshold: adverseEvents.frequencyThreshold,
+          referenceArm,
+          arms: adverseEvents.arms.map(arm => ({
+            arm: arm.arm,
+            deaths: { ...arm.deaths, rate: this.eventRate(arm.deaths.affected, arm.deaths.atRisk) },
+            serious: { ...arm.serious, rate: this.eventRate(arm.serious.affected, arm.serious.atRisk) },
+            other: { ...arm.other, rate: this.eventRate(arm.other.affected, arm.other.atRisk) }
+          })),
+          events,
+          organSystems: args?.aggregateByOrganSystem ? this.aggregateByOrganSystem(events, referenceArm) : undefined
+        });
+      }
+
+      return this.toolResult({
+        comparisonCriteria: {
+          nctIds,
+          eventType,
+          referenceArm: args?.referenceArm,
+          aggregateByOrganSystem: args?.aggregateByOrganSystem || false,
+          minRate: args?.minRate
+        },
+        studiesCompared: comparisons.length,
+        notFound,
+        withoutResults,
+        studies: comparisons,
+        acrossTrials: comparisons.length > 1 ? this.poolAdverseEvents(comparisons) : undefined
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1392,54 +3780,102 @@ export class ClinicalTrialsServer {
       throw new McpError(ErrorCode.InvalidParams, 'Rare disease parameter is required');
     }
 
-    const params: any = {
-      'format': 'json',
-      'pageSize': args?.pageSize || 10,
-      'query.cond': args.rareDisease
-    };
-
-    if (args?.recruitmentStatus) {
-      params['filter.overallStatus'] = args.recruitmentStatus;
+    // Catalog diseases are searched under every name; anything else as typed
+    const disease = findRareDisease(args.rareDisease);
+    const params: any = {
+      'format': 'json',
+      'pageSize': args?.pageSize || 10,
+      'query.cond': disease ? rareDiseaseQuery(disease) : args.rareDisease
+    };
+
+    if (args?.recruitmentStatus) {
+      params['filter.overallStatus'] = args.recruitmentStatus;
+    }
+
+    try {
+      const response = await this.fetchStudies(params, args);
+      
+      const studies = response.studies || [];
+      const results = studies.map(study => ({
+        ...this.formatStudySummary(study),
+        conditions: study.protocolSection.conditionsModule?.conditions || [],
+        eligibility: {
+          sex: study.protocolSection.eligibilityModule?.sex || 'Unknown',
+          minimumAge: study.protocolSection.eligibilityModule?.minimumAge || 'Not specified',
+          maximumAge: study.protocolSection.eligibilityModule?.maximumAge || 'Not specified'
+        },
+        rareDiseases: matchRareDiseases(study.protocolSection.conditionsModule?.conditions || [])
+          .map(({ name, orphaCode, prevalence }) => ({ name, orphaCode, prevalence }))
+      }));
+
+      return this.toolResult({
+        searchCriteria: {
+          rareDisease: args.rareDisease,
+          recruitmentStatus: args?.recruitmentStatus,
+          catalogMatch: disease,
+          searchNote: disease
+            ? `Searched ${disease.name} (${disease.orphaCode}) under all of its catalog names`
+            : 'Not in the rare disease catalog; searched as typed'
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleListRareDiseasesWithTrials(args: any) {
+    if (args?.maxPrevalence && !PREVALENCE_CLASSES.includes(args.maxPrevalence)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prevalence class: ${args.maxPrevalence}. Valid classes: ${PREVALENCE_CLASSES.join(', ')}`);
     }
 
-    // Add terms commonly associated with rare diseases
-    params['query.term'] = `${args.rareDisease} OR orphan OR rare`;
+    const maxRank = args?.maxPrevalence ? PREVALENCE_CLASSES.indexOf(args.maxPrevalence) : PREVALENCE_CLASSES.length - 1;
+    const candidates = RARE_DISEASES.filter(disease =>
+      (!args?.group || disease.group === args.group) && PREVALENCE_CLASSES.indexOf(disease.prevalence) <= maxRank);
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
-      
-      const studies = response.data.studies || [];
-      const results = studies.map(study => ({
-        ...this.formatStudySummary(study),
-        conditions: study.protocolSection.conditionsModule?.conditions || [],
-        eligibility: {
-          sex: study.protocolSection.eligibilityModule?.sex || 'Unknown',
-          minimumAge: study.protocolSection.eligibilityModule?.minimumAge || 'Not specified',
-          maximumAge: study.protocolSection.eligibilityModule?.maximumAge || 'Not specified'
+      const diseases: Array<RareDisease & { trialCount: number }> = [];
+      for (const disease of candidates) {
+        // One single-row page per disease is enough to read its total
+        const params: any = {
+          'format': 'json',
+          'fields': 'NCTId',
+          'pageSize': 1,
+          'countTotal': true,
+          'query.cond': rareDiseaseQuery(disease)
+        };
+        if (args?.recruitmentStatus) {
+          params['filter.overallStatus'] = args.recruitmentStatus;
         }
-      }));
+        const response = await this.getStudies(params, args?.noCache);
+        diseases.push({ ...disease, trialCount: response.totalCount || 0 });
+      }
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: {
-              rareDisease: args.rareDisease,
-              recruitmentStatus: args?.recruitmentStatus,
-              searchNote: 'Includes orphan and rare disease designations'
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      const withTrials = diseases.filter(disease => disease.trialCount > 0);
+      return this.toolResult({
+        filters: { group: args?.group, maxPrevalence: args?.maxPrevalence, recruitmentStatus: args?.recruitmentStatus },
+        diseasesChecked: diseases.length,
+        diseasesWithTrials: withTrials.length,
+        diseases: (args?.includeEmpty ? diseases : withTrials).sort((a, b) => b.trialCount - a.trialCount)
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1481,9 +3917,9 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => ({
         ...this.formatStudySummary(study),
         conditions: study.protocolSection.conditionsModule?.conditions || [],
@@ -1496,28 +3932,24 @@ export class ClinicalTrialsServer {
         locations: study.protocolSection.contactsLocationsModule?.locations?.slice(0, 2) || []
       }));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: {
-              targetPopulation: 'PEDIATRIC',
-              condition: args?.condition,
-              ageRange: args?.ageRange,
-              recruitmentStatus: args?.recruitmentStatus
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: {
+          targetPopulation: 'PEDIATRIC',
+          condition: args?.condition,
+          ageRange: args?.ageRange,
+          recruitmentStatus: args?.recruitmentStatus
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1531,17 +3963,15 @@ export class ClinicalTrialsServer {
       throw new McpError(ErrorCode.InvalidParams, 'Valid NCT ID is required (format: NCT########)');
     }
 
+    const similarityType = args.similarityType || 'CONDITION';
+    if (similarityType === 'MULTI_FACTOR') {
+      this.validateSimilarityWeights(args.weights);
+    }
+
     try {
       // First get the reference study to extract similarity criteria
-      const referenceResponse: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', {
-        params: { 
-          format: 'json',
-          'query.term': args.nctId,
-          pageSize: 1
-        }
-      });
-
-      if (!referenceResponse.data.studies || referenceResponse.data.studies.length === 0) {
+      const [referenceStudy] = await this.fetchStudiesByIds([args.nctId], args.noCache);
+      if (!referenceStudy) {
         return {
           content: [{
             type: 'text',
@@ -1551,8 +3981,10 @@ export class ClinicalTrialsServer {
         };
       }
 
-      const referenceStudy = referenceResponse.data.studies[0];
-      const similarityType = args.similarityType || 'CONDITION';
+      if (similarityType === 'MULTI_FACTOR') {
+        return await this.findSimilarByScore(referenceStudy, args);
+      }
+
       let searchParams: any = {
         'format': 'json',
         'pageSize': args?.pageSize || 10
@@ -1580,34 +4012,30 @@ export class ClinicalTrialsServer {
           break;
       }
 
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params: searchParams });
+      const response = await this.fetchStudies(searchParams, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies
         .filter(study => study.protocolSection.identificationModule.nctId !== args.nctId) // Exclude reference study
         .map(study => this.formatStudySummary(study));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            referenceStudy: {
-              nctId: args.nctId,
-              title: referenceStudy.protocolSection.identificationModule.briefTitle
-            },
-            similarityType,
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            similarStudies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        referenceStudy: {
+          nctId: args.nctId,
+          title: referenceStudy.protocolSection.identificationModule.briefTitle
+        },
+        similarityType,
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        similarStudies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1616,6 +4044,89 @@ export class ClinicalTrialsServer {
     }
   }
 
+  private validateSimilarityWeights(weights: any) {
+    if (weights === undefined) {
+      return;
+    }
+    if (weights === null || typeof weights !== 'object' || Array.isArray(weights)) {
+      throw new McpError(ErrorCode.InvalidParams, 'weights must be an object mapping similarity factors to numbers');
+    }
+    for (const [factor, weight] of Object.entries(weights)) {
+      if (!(SIMILARITY_FACTORS as readonly string[]).includes(factor)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown similarity factor: ${factor}. Valid factors: ${SIMILARITY_FACTORS.join(', ')}`);
+      }
+      if (typeof weight !== 'number' || !(weight >= 0)) {
+        throw new McpError(ErrorCode.InvalidParams, `Weight for ${factor} must be a non-negative number`);
+      }
+    }
+    if (SIMILARITY_FACTORS.every(factor => (weights[factor] ?? DEFAULT_SIMILARITY_WEIGHTS[factor]) === 0)) {
+      throw new McpError(ErrorCode.InvalidParams, 'At least one similarity weight must be above 0');
+    }
+  }
+
+  /**
+   * Gather candidates sharing any condition, intervention or keyword with the
+   * reference study, score each on every factor and return the best ranked.
+   */
+  private async findSimilarByScore(reference: Study, args: any) {
+    const protocol = reference.protocolSection;
+    const nctId = protocol.identificationModule.nctId;
+    const anyOf = (names: string[]) => names.map(name => `"${name.replace(/"/g, '')}"`).join(' OR ');
+    const conditions = protocol.conditionsModule?.conditions || [];
+    const keywords = protocol.conditionsModule?.keywords || [];
+    const interventions = (protocol.armsInterventionsModule?.interventions || [])
+      .map(intervention => intervention.name)
+      .filter(name => !REFERENCE_ARM_PATTERN.test(name));
+
+    const queries = [
+      ...(conditions.length > 0 ? [{ 'query.cond': anyOf(conditions) }] : []),
+      ...(interventions.length > 0 ? [{ 'query.intr': anyOf(interventions) }] : []),
+      ...(keywords.length > 0 ? [{ 'query.term': anyOf(keywords) }] : [])
+    ];
+    const scorer = new SimilarityScorer(reference, { weights: args.weights, excludeInterventions: REFERENCE_ARM_PATTERN });
+    const summary = {
+      referenceStudy: { nctId, title: protocol.identificationModule.briefTitle },
+      similarityType: 'MULTI_FACTOR',
+      weights: Object.fromEntries(scorer.factors.map(factor => [factor, scorer.weights[factor]]))
+    };
+    if (queries.length === 0) {
+      return this.toolResult({
+        ...summary,
+        totalCount: 0,
+        resultsShown: 0,
+        similarStudies: [],
+        message: `${nctId} lists no conditions, interventions or keywords to gather candidate studies on`
+      });
+    }
+
+    const pool = Math.min(args.candidatePool || DEFAULT_SIMILARITY_CANDIDATES, MAX_SIMILARITY_CANDIDATES);
+    const candidates = new Map<string, Study>();
+    for (const query of queries) {
+      for await (const study of this.walkStudies({ format: 'json', ...query }, pool, { totalCount: 0 }, args.noCache)) {
+        const candidateId = study.protocolSection.identificationModule.nctId;
+        if (candidateId !== nctId) {
+          candidates.set(candidateId, study);
+        }
+      }
+    }
+
+    const ranked = [...candidates.values()]
+      .map(study => ({ study, similarity: scorer.score(study) }))
+      .sort((a, b) => b.similarity.score - a.similarity.score);
+    const results = ranked.slice(0, args.pageSize || 10).map(({ study, similarity }) => ({
+      ...this.formatStudySummary(study),
+      similarityScore: similarity.score,
+      similarityFactors: similarity.factors
+    }));
+
+    return this.toolResult({
+      ...summary,
+      totalCount: candidates.size,
+      resultsShown: results.length,
+      similarStudies: results
+    });
+  }
+
   public async handleSearchByPrimaryOutcome(args: any) {
     if (!args?.outcome) {
       throw new McpError(ErrorCode.InvalidParams, 'Outcome parameter is required');
@@ -1636,32 +4147,28 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => this.formatStudySummary(study));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: { 
-              primaryOutcome: args.outcome,
-              condition: args?.condition,
-              phase: args?.phase
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: { 
+          primaryOutcome: args.outcome,
+          condition: args?.condition,
+          phase: args?.phase
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1701,9 +4208,9 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       let filteredStudies = studies;
 
       // Apply exclusion keyword filtering if specified
@@ -1726,31 +4233,27 @@ export class ClinicalTrialsServer {
         }
       }));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: {
-              minAge: args?.minAge,
-              maxAge: args?.maxAge,
-              sex: args?.sex,
-              healthyVolunteers: args?.healthyVolunteers,
-              condition: args?.condition,
-              inclusionKeywords: args?.inclusionKeywords,
-              exclusionKeywords: args?.exclusionKeywords
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: {
+          minAge: args?.minAge,
+          maxAge: args?.maxAge,
+          sex: args?.sex,
+          healthyVolunteers: args?.healthyVolunteers,
+          condition: args?.condition,
+          inclusionKeywords: args?.inclusionKeywords,
+          exclusionKeywords: args?.exclusionKeywords
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1795,9 +4298,9 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       const results = studies.map(study => ({
         ...this.formatStudySummary(study),
         timeline: {
@@ -1809,28 +4312,24 @@ export class ClinicalTrialsServer {
         }
       }));
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: {
-              condition: args?.condition,
-              sponsor: args?.sponsor,
-              phase: args?.phase,
-              timelineType
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            studies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: {
+          condition: args?.condition,
+          sponsor: args?.sponsor,
+          phase: args?.phase,
+          timelineType
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        studies: results
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1858,9 +4357,9 @@ export class ClinicalTrialsServer {
     }
 
     try {
-      const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+      const response = await this.fetchStudies(params, args);
       
-      const studies = response.data.studies || [];
+      const studies = response.studies || [];
       
       // Filter for international studies
       let filteredStudies = studies.filter(study => {
@@ -1896,30 +4395,310 @@ export class ClinicalTrialsServer {
         };
       });
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            searchCriteria: {
-              condition: args?.condition,
-              excludeCountry: args?.excludeCountry,
-              includeCountry: args?.includeCountry,
-              minCountries: args?.minCountries,
-              phase: args?.phase,
-              note: 'Only showing studies with 2+ countries'
-            },
-            totalCount: response.data.totalCount || 0,
-            resultsShown: results.length,
-            internationalStudies: results
-          }, null, 2)
-        }]
-      };
+      return this.toolResult({
+        searchCriteria: {
+          condition: args?.condition,
+          excludeCountry: args?.excludeCountry,
+          includeCountry: args?.includeCountry,
+          minCountries: args?.minCountries,
+          phase: args?.phase,
+          note: 'Only showing studies with 2+ countries'
+        },
+        totalCount: response.totalCount || 0,
+        resultsShown: results.length,
+        nextPageToken: response.nextPageToken,
+        internationalStudies: results
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleParseEligibility(args: any) {
+    if (typeof args?.criteria === 'string') {
+      return this.toolResult(parseEligibilityCriteria(args.criteria));
+    }
+    if (!args?.nctId || !/^NCT\d{8}$/.test(args.nctId)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Either criteria text or a valid NCT ID (format: NCT########) is required');
+    }
+
+    try {
+      const study = await this.fetchStudyById(args.nctId, args.noCache);
+
+      if (!study) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No study found with NCT ID: ${args.nctId}`
+          }],
+          isError: true
+        };
+      }
+
+      const eligibility = study.protocolSection.eligibilityModule;
+      return this.toolResult({
+        nctId: study.protocolSection.identificationModule.nctId,
+        title: study.protocolSection.identificationModule.briefTitle,
+        sex: eligibility?.sex,
+        minimumAge: eligibility?.minimumAge,
+        maximumAge: eligibility?.maximumAge,
+        healthyVolunteers: eligibility?.healthyVolunteers,
+        ...parseEligibilityCriteria(eligibility?.eligibilityCriteria)
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleMatchPatientToTrials(args: any) {
+    const patient: PatientProfile | undefined = args?.patient;
+    if (!Array.isArray(patient?.diagnoses) || patient.diagnoses.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'patient.diagnoses must list at least one diagnosis');
+    }
+
+    const params: any = {
+      'format': 'json',
+      'query.cond': patient.diagnoses.join(' OR '),
+      'filter.overallStatus': 'RECRUITING'
+    };
+    if (patient.location) {
+      params['query.locn'] = patient.location;
+    }
+    if (patient.sex) {
+      params['filter.sex'] = patient.sex;
+    }
+
+    const maxCandidates = Math.min(Math.max(1, Math.floor(args?.maxCandidates || DEFAULT_MATCH_CANDIDATES)), MAX_MATCH_CANDIDATES);
+
+    try {
+      const response = await this.fetchStudies(params, { maxResults: maxCandidates, noCache: args?.noCache });
+
+      const candidates = (response.studies || []).map(study => ({
+        ...this.formatStudySummary(study),
+        ...matchPatientToStudy(study, patient)
+      }));
+      const matches = candidates
+        .filter(candidate => args?.includeIneligible || candidate.eligible)
+        .sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.score - a.score)
+        .slice(0, args?.limit || 10);
+
+      return this.toolResult({
+        patient,
+        totalCount: response.totalCount || 0,
+        candidatesEvaluated: candidates.length,
+        eligibleCount: candidates.filter(candidate => candidate.eligible).length,
+        resultsShown: matches.length,
+        matches
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  public async handleExportStudies(args: any) {
+    const chunks: Buffer[] = [];
+    const sink = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(Buffer.from(chunk));
+        callback();
+      }
+    });
+
+    try {
+      const result = await this.exportStudies(args, sink);
+      const data = Buffer.concat(chunks);
+      const binary = result.format === 'xlsx';
+
+      return this.toolResult({
+        ...result,
+        encoding: binary ? 'base64' : 'utf8',
+        data: data.toString(binary ? 'base64' : 'utf8')
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [{
+            type: 'text',
+            text: this.formatApiError(error)
+          }],
+          isError: true
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate the export arguments. Called before any output is written so a
+   * streaming caller can still report bad arguments as a plain error.
+   */
+  public resolveExportOptions(args: any) {
+    const format: ExportFormat = args?.format || 'csv';
+    if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown export format: ${format}. Valid formats: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+    }
+
+    const columns: string[] = args?.columns?.length ? args.columns : DEFAULT_EXPORT_COLUMNS;
+    const summaryFields = Object.keys(STUDY_SUMMARY_SCHEMA.properties);
+    const unknownColumns = columns.filter(column => !isValidColumn(column, summaryFields, STUDY_DETAIL_SECTIONS));
+    if (unknownColumns.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown columns: ${unknownColumns.join(', ')}. Use a summary field (${summaryFields.join(', ')}) ` +
+        `or a path starting with a detail section (${STUDY_DETAIL_SECTIONS.join(', ')})`
+      );
+    }
+
+    return {
+      format,
+      mimeType: EXPORT_FORMATS[format].mimeType,
+      fileName: `clinical-trials-export.${EXPORT_FORMATS[format].extension}`,
+      columns,
+      maxRows: Math.min(Math.max(1, Math.floor(args?.maxRows || EXPORT_MAX_ROWS)), EXPORT_MAX_ROWS)
+    };
+  }
+
+  /**
+   * Walk every page matching the search criteria and write the studies to
+   * `output` as they arrive. Used by export_studies and the streaming REST
+   * endpoint.
+   */
+  public async exportStudies(args: any, output: Writable) {
+    const { maxRows, ...options } = this.resolveExportOptions(args);
+    const params = this.buildSearchParams(args);
+    delete params.pageSize;
+
+    const progress = { totalCount: 0 };
+    const rowCount = await writeExport(this.walkExportRecords(params, maxRows, progress, args?.noCache), options.format, options.columns, output);
+
+    return {
+      searchCriteria: {
+        query: args?.query,
+        condition: args?.condition,
+        intervention: args?.intervention,
+        location: args?.location,
+        phase: args?.phase,
+        status: args?.status,
+        sex: args?.sex,
+        age: args?.age
+      },
+      ...options,
+      rowCount,
+      totalCount: progress.totalCount,
+      truncated: rowCount < progress.totalCount
+    };
+  }
+
+  private async *walkExportRecords(params: any, maxRows: number, progress: { totalCount: number }, noCache = false): AsyncGenerator<ExportRecord> {
+    for await (const study of this.walkStudies(params, maxRows, progress, noCache)) {
+      yield { summary: this.formatStudySummary(study), details: this.formatDetailedStudy(study) };
+    }
+  }
+
+  /**
+   * Yield every study matching `params`, page by page, up to `maxStudies`.
+   * The total match count is reported through `progress` once the first
+   * page arrives.
+   */
+  private async *walkStudies(
+    params: any,
+    maxStudies: number,
+    progress: { totalCount: number },
+    noCache = false,
+    pageSize = MAX_PAGE_SIZE
+  ): AsyncGenerator<Study> {
+    let yielded = 0;
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.getStudies({
+        ...params,
+        pageSize: Math.min(pageSize, maxStudies - yielded),
+        pageToken,
+        countTotal: yielded === 0 ? true : undefined
+      }, noCache);
+
+      progress.totalCount = progress.totalCount || page.totalCount || 0;
+      for (const study of (page.studies || []).slice(0, maxStudies - yielded)) {
+        yield study;
+        yielded++;
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken && yielded < maxStudies);
+  }
+
+  public async handleGetCacheStats(args: any) {
+    const stats = this.cache.stats();
+    if (args?.clear) {
+      await this.cache.clear();
+    }
+
+    return this.toolResult({
+      ...stats,
+      cleared: args?.clear || false
+    });
+  }
+
+  public async handleWatchStudy(args: any) {
+    if (!args?.nctId || !/^NCT\d{8}$/.test(args.nctId)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Valid NCT ID is required (format: NCT########)');
+    }
+
+    try {
+      const study = await this.fetchStudyById(args.nctId, true);
+
+      if (!study) {
+        return {
+          content: [{
+            type: 'text',
+            text: `No study found with NCT ID: ${args.nctId}`
+          }],
+          isError: true
+        };
+      }
+
+      const { entry, added } = await this.watchlist.watch(study);
+      return this.toolResult({
+        nctId: entry.nctId,
+        title: entry.title,
+        watched: true,
+        changed: added,
+        watchedSince: entry.watchedSince,
+        watchedCount: (await this.watchlist.nctIds()).length
+      });
     } catch (error) {
       if (axios.isAxiosError(error)) {
         return {
           content: [{
             type: 'text',
-            text: `Clinical Trials API error: ${error.response?.data?.message || error.message}`
+            text: this.formatApiError(error)
           }],
           isError: true
         };
@@ -1928,6 +4707,101 @@ export class ClinicalTrialsServer {
     }
   }
 
+  public async handleUnwatchStudy(args: any) {
+    if (!args?.nctId || !/^NCT\d{8}$/.test(args.nctId)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Valid NCT ID is required (format: NCT########)');
+    }
+
+    const removed = await this.watchlist.unwatch(args.nctId);
+    return this.toolResult({
+      nctId: args.nctId,
+      watched: false,
+      changed: removed,
+      watchedCount: (await this.watchlist.nctIds()).length
+    });
+  }
+
+  public async handleListWatched(args: any) {
+    const [studies, changes] = await Promise.all([this.watchlist.list(), this.watchlist.changeLog()]);
+    return this.toolResult({
+      watchedCount: studies.length,
+      pollIntervalSeconds: WATCHLIST_POLL_INTERVAL_SECONDS,
+      studies: studies.map(entry => ({
+        nctId: entry.nctId,
+        title: entry.title,
+        status: entry.snapshot.protocolSection.statusModule?.overallStatus,
+        watchedSince: entry.watchedSince,
+        lastCheckedAt: entry.lastCheckedAt,
+        lastChangedAt: entry.lastChangedAt,
+        pendingChanges: changes.filter(change => change.nctId === entry.nctId).length
+      }))
+    });
+  }
+
+  public async handleGetWatchlistChanges(args: any) {
+    if (args?.since && Number.isNaN(Date.parse(args.since))) {
+      throw new McpError(ErrorCode.InvalidParams, `since must be an ISO 8601 timestamp, got: ${args.since}`);
+    }
+
+    let check: { checkedAt: string; studiesChecked: number } | undefined;
+    if (args?.checkNow) {
+      try {
+        check = await this.checkWatchlist();
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          return {
+            content: [{
+              type: 'text',
+              text: this.formatApiError(error)
+            }],
+            isError: true
+          };
+        }
+        throw error;
+      }
+    }
+
+    const changes = await this.watchlist.changeLog({
+      nctId: args?.nctId,
+      since: args?.since && new Date(args.since).toISOString(),
+      clear: args?.clear
+    });
+    return this.toolResult({
+      ...check,
+      changeCount: changes.length,
+      changes,
+      cleared: args?.clear || false
+    });
+  }
+
+  /**
+   * Re-fetch every watched study, log field-level changes against the stored
+   * snapshots and notify clients subscribed to a changed study's resources.
+   */
+  public async checkWatchlist() {
+    const checkedAt = new Date().toISOString();
+    const nctIds = await this.watchlist.nctIds();
+    const studies = nctIds.length > 0 ? await this.fetchStudiesByIds(nctIds, true) : [];
+
+    for (const study of studies) {
+      const change = await this.watchlist.update(study);
+      if (change) {
+        await this.notifyStudyUpdated(change.nctId);
+      }
+    }
+    return { checkedAt, studiesChecked: studies.length };
+  }
+
+  private async notifyStudyUpdated(nctId: string) {
+    const base = `clinicaltrials://study/${nctId}`;
+    for (const uri of [base, `${base}/results`, `${base}/locations`]) {
+      if (this.subscriptions.has(uri)) {
+        await this.server.sendResourceUpdated({ uri }).catch(error =>
+          console.error('[Watchlist] Failed to send update notification:', error instanceof Error ? error.message : error));
+      }
+    }
+  }
+
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
@@ -1935,5 +4809,22 @@ export class ClinicalTrialsServer {
   }
 }
 
-const server = new ClinicalTrialsServer();
-server.run().catch(console.error);
+/**
+ * True when this module is the process entry point (including when started
+ * through the npm bin symlink), false when it is imported.
+ */
+export function isMainModule(moduleUrl: string): boolean {
+  if (!process.argv[1]) {
+    return false;
+  }
+  try {
+    return fileURLToPath(moduleUrl) === realpathSync(process.argv[1]);
+  } catch {
+    return false;
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  const server = new ClinicalTrialsServer();
+  server.run().catch(console.error);
+}
@@ -0,0 +1,161 @@
+/**
+ * Competitive landscape
+ *
+ * Builds a sponsor × intervention matrix for an indication from the studies
+ * that match it: the highest phase each pair has reached, how many of its
+ * trials are active or completed, its latest start date and its lead trials.
+ */
+
+import { markdownTable } from './export.js';
+import { normalizeSponsor, sponsorKey } from './sponsors.js';
+import { Study } from './types/study.js';
+
+// Development order; NA (not applicable) ranks below any numbered phase
+export const PHASE_ORDER = ['NA', 'EARLY_PHASE1', 'PHASE1', 'PHASE2', 'PHASE3', 'PHASE4'];
+
+const ACTIVE_STATUSES = ['RECRUITING', 'NOT_YET_RECRUITING', 'ACTIVE_NOT_RECRUITING', 'ENROLLING_BY_INVITATION'];
+
+// Lead trials listed per row
+const MAX_LEAD_TRIALS = 3;
+
+export interface LandscapeRow {
+  sponsor: string;
+  sponsorClass?: string;
+  intervention: string;
+  interventionType?: string;
+  highestPhase?: string;
+  activeTrials: number;
+  completedTrials: number;
+  totalTrials: number;
+  latestStartDate?: string;
+  leadNctIds: string[];
+}
+
+export interface LandscapeOptions {
+  // Interventions whose name matches are left out (e.g. placebo and other comparators)
+  exclude?: RegExp;
+  interventionTypes?: string[];
+}
+
+interface LandscapeEntry extends Omit<LandscapeRow, 'leadNctIds'> {
+  trials: Array<{ nctId: string; phaseRank: number; startDate: string }>;
+}
+
+export const phaseRank = (phase?: string) => (phase ? PHASE_ORDER.indexOf(phase) : -1);
+
+export class CompetitiveLandscape {
+  private entries = new Map<string, LandscapeEntry>();
+  private sponsors = new Set<string>();
+  private interventions = new Set<string>();
+  studiesWithoutInterventions = 0;
+
+  constructor(private options: LandscapeOptions = {}) {}
+
+  add(study: Study) {
+    const protocol = study.protocolSection;
+    const sponsor = protocol.sponsorCollaboratorsModule?.leadSponsor;
+    // Sponsors are grouped under their canonical name, subsidiaries included
+    const sponsorName = sponsor?.name ? normalizeSponsor(sponsor.name) : 'Not specified';
+    const status = protocol.statusModule?.overallStatus;
+    const startDate = protocol.statusModule?.startDateStruct?.date || '';
+    const phases = protocol.designModule?.phases || [];
+    const highestPhase = phases.reduce<string | undefined>(
+      (highest, phase) => (phaseRank(phase) > phaseRank(highest) ? phase : highest), undefined);
+
+    const interventions = (protocol.armsInterventionsModule?.interventions || []).filter(intervention =>
+      !this.options.exclude?.test(intervention.name) &&
+      (!this.options.interventionTypes?.length || this.options.interventionTypes.includes(intervention.type)));
+    if (interventions.length === 0) {
+      this.studiesWithoutInterventions++;
+      return;
+    }
+
+    const seen = new Set<string>();
+    for (const intervention of interventions) {
+      // Interventions are matched case-insensitively; the first spelling seen is shown
+      const interventionKey = intervention.name.trim().toLowerCase();
+      const key = `${sponsorKey(sponsorName)}\u0000${interventionKey}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      this.sponsors.add(sponsorKey(sponsorName));
+      this.interventions.add(interventionKey);
+
+      let entry = this.entries.get(key);
+      if (!entry) {
+        entry = {
+          sponsor: sponsorName,
+          sponsorClass: sponsor?.class,
+          intervention: intervention.name.trim(),
+          interventionType: intervention.type,
+          activeTrials: 0,
+          completedTrials: 0,
+          totalTrials: 0,
+          trials: []
+        };
+        this.entries.set(key, entry);
+      }
+
+      entry.totalTrials++;
+      if (status && ACTIVE_STATUSES.includes(status)) {
+        entry.activeTrials++;
+      } else if (status === 'COMPLETED') {
+        entry.completedTrials++;
+      }
+      if (phaseRank(highestPhase) > phaseRank(entry.highestPhase)) {
+        entry.highestPhase = highestPhase;
+      }
+      if (startDate > (entry.latestStartDate || '')) {
+        entry.latestStartDate = startDate;
+      }
+      entry.trials.push({ nctId: protocol.identificationModule.nctId, phaseRank: phaseRank(highestPhase), startDate });
+    }
+  }
+
+  get sponsorCount() {
+    return this.sponsors.size;
+  }
+
+  get interventionCount() {
+    return this.interventions.size;
+  }
+
+  /**
+   * Rows ordered by highest phase, then active and total trial counts. Lead
+   * trials are the most advanced, most recently started ones.
+   */
+  rows(): LandscapeRow[] {
+    return [...this.entries.values()]
+      .sort((a, b) =>
+        phaseRank(b.highestPhase) - phaseRank(a.highestPhase) ||
+        b.activeTrials - a.activeTrials ||
+        b.totalTrials - a.totalTrials)
+      .map(({ trials, ...row }) => ({
+        ...row,
+        leadNctIds: [...trials]
+          .sort((a, b) => b.phaseRank - a.phaseRank || b.startDate.localeCompare(a.startDate))
+          .slice(0, MAX_LEAD_TRIALS)
+          .map(trial => trial.nctId)
+      }));
+  }
+}
+
+/**
+ * The landscape as a Markdown table, one row per sponsor and intervention.
+ */
+export function landscapeMarkdown(rows: LandscapeRow[]): string {
+  return markdownTable(
+    ['Sponsor', 'Intervention', 'Highest phase', 'Active', 'Completed', 'Total', 'Latest start', 'Lead trials'],
+    rows.map(row => [
+      row.sponsor,
+      row.intervention,
+      row.highestPhase || 'Not specified',
+      row.activeTrials,
+      row.completedTrials,
+      row.totalTrials,
+      row.latestStartDate,
+      row.leadNctIds
+    ])
+  );
+}
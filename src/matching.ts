@@ -0,0 +1,258 @@
+/**
+ * Patient-to-trial matching
+ *
+ * Evaluates a structured patient profile against a study's eligibility
+ * module and the structured items the eligibility parser extracts from each
+ * criterion (age, performance status, lab thresholds, prior therapy,
+ * pregnancy); inclusion criteria without structured items are checked
+ * against the patient's diagnoses. Anything that cannot be decided is reported as not
+ * evaluated rather than guessed.
+ */
+
+import {
+  canonicalAnalyte,
+  Comparator,
+  EligibilityCriterion,
+  leafCriteria,
+  parseAgeInYears,
+  parseEligibilityCriteria,
+  StructuredCriterion
+} from './eligibility.js';
+import { Study } from './types/study.js';
+
+export interface PatientProfile {
+  age?: number;
+  sex?: 'FEMALE' | 'MALE';
+  diagnoses: string[];
+  priorTherapies?: string[];
+  // Keyed by the name used in criteria text, e.g. { "ANC": { "value": 1800, "unit": "/µL" } }. Bare
+  // numbers only meet thresholds without a unit; ULN-relative thresholds need the unit "x ULN"
+  labValues?: Record<string, number | LabValue>;
+  ecog?: number;
+  pregnant?: boolean;
+  breastfeeding?: boolean;
+  location?: string;
+}
+
+export interface LabValue {
+  value: number;
+  unit?: string;
+}
+
+export interface CriterionAssessment {
+  criterion: string;
+  reason?: string;
+}
+
+export interface TrialMatch {
+  score: number;
+  eligible: boolean;
+  metInclusion: CriterionAssessment[];
+  unmetInclusion: CriterionAssessment[];
+  exclusionsHit: CriterionAssessment[];
+  exclusionsCleared: CriterionAssessment[];
+  notEvaluated: Array<CriterionAssessment & { type: 'inclusion' | 'exclusion' }>;
+}
+
+/**
+ * Whether the patient satisfies the statement a criterion makes. Undefined
+ * means the criterion could not be evaluated.
+ */
+interface Evaluation {
+  applies?: boolean;
+  reason?: string;
+}
+
+const COMPARATORS: Record<Comparator, (value: number, limit: number) => boolean> = {
+  '≥': (value, limit) => value >= limit,
+  '>': (value, limit) => value > limit,
+  '≤': (value, limit) => value <= limit,
+  '<': (value, limit) => value < limit,
+  '=': (value, limit) => value === limit
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// "10^9/L" and "10^9 / l", "/µL" and "/uL" name the same unit
+const unitKey = (unit: string) => unit.toLowerCase().replace(/μ|µ/g, 'u').replace(/\s+/g, '');
+
+function compare(label: string, value: number, comparator: Comparator, limit: number): Evaluation {
+  return { applies: COMPARATORS[comparator](value, limit), reason: `${label} ${value} ${comparator} ${limit}` };
+}
+
+function evaluateItem(item: StructuredCriterion, patient: PatientProfile): Evaluation {
+  switch (item.type) {
+    case 'age':
+      return patient.age === undefined
+        ? { reason: 'patient age not given' }
+        : compare('age', patient.age, item.comparator, item.value);
+
+    case 'performanceStatus':
+      if (item.scale !== 'ECOG') {
+        return { reason: `${item.scale} score not in patient profile` };
+      }
+      return patient.ecog === undefined
+        ? { reason: 'patient ECOG performance status not given' }
+        : compare('ECOG', patient.ecog, item.comparator, item.value);
+
+    case 'lab': {
+      const lab = Object.entries(patient.labValues || {})
+        .find(([name]) => (canonicalAnalyte(name) || name).toLowerCase() === item.analyte.toLowerCase());
+      if (!lab) {
+        return { reason: 'no matching lab value in patient profile' };
+      }
+      // Values are only compared in the unit the criterion uses
+      const [name, given] = lab;
+      const { value, unit } = typeof given === 'number' ? { value: given, unit: undefined } : given;
+      if (item.unit && !unit) {
+        return {
+          reason: item.unit === 'x ULN'
+            ? `${name} threshold is relative to the upper limit of normal; give the value with unit "x ULN"`
+            : `unit of the patient's ${name} not given (criterion uses ${item.unit})`
+        };
+      }
+      if (item.unit && unitKey(item.unit) !== unitKey(unit!)) {
+        return { reason: `patient's ${name} is in ${unit}, criterion uses ${item.unit}` };
+      }
+      return compare(name, value, item.comparator, item.value);
+    }
+
+    case 'priorTherapy': {
+      if (!item.therapy) {
+        return { reason: 'lines of prior therapy not evaluated' };
+      }
+      if (!patient.priorTherapies) {
+        return { reason: 'prior therapies not given' };
+      }
+      const therapy = normalize(item.therapy);
+      const received = patient.priorTherapies.find(name => {
+        const normalized = normalize(name);
+        return normalized && (therapy.includes(normalized) || normalized.includes(therapy));
+      });
+      return {
+        applies: item.negated ? !received : Boolean(received),
+        reason: received ? `patient received ${received}` : 'none of the patient\'s prior therapies are mentioned'
+      };
+    }
+
+    case 'pregnancy': {
+      if (patient.sex === 'MALE' && (item.negativeTest || item.pregnant || item.breastfeeding)) {
+        return { applies: item.negativeTest, reason: 'patient is male' };
+      }
+      if (item.negativeTest) {
+        return patient.pregnant === undefined
+          ? { reason: 'pregnancy status not given' }
+          : { applies: !patient.pregnant, reason: patient.pregnant ? 'patient is pregnant' : 'patient is not pregnant' };
+      }
+      if (!item.pregnant && !item.breastfeeding) {
+        return { reason: 'contraception requirement' };
+      }
+      const statuses = [
+        ...(item.pregnant ? [patient.pregnant] : []),
+        ...(item.breastfeeding ? [patient.breastfeeding] : [])
+      ];
+      if (statuses.some(Boolean)) {
+        return { applies: true, reason: 'patient is pregnant or breastfeeding' };
+      }
+      return statuses.every(status => status === false)
+        ? { applies: false, reason: 'patient is not pregnant or breastfeeding' }
+        : { reason: 'pregnancy status not given' };
+    }
+  }
+}
+
+/**
+ * A criterion applies when every structured item in it applies. Inclusion
+ * criteria without structured items are checked against the patient's
+ * diagnoses; an exclusion that merely mentions the diagnosis ("prior
+ * malignancy other than breast cancer") says nothing about the patient.
+ */
+function evaluateCriterion(criterion: EligibilityCriterion, patient: PatientProfile, type: 'inclusion' | 'exclusion'): Evaluation {
+  if (criterion.structured) {
+    const evaluations = criterion.structured.map(item => evaluateItem(item, patient));
+    const decisive = evaluations.find(evaluation => evaluation.applies === false) ||
+      evaluations.find(evaluation => evaluation.applies === undefined);
+    if (decisive) {
+      return decisive;
+    }
+    return { applies: true, reason: evaluations.map(evaluation => evaluation.reason).join('; ') };
+  }
+
+  if (type === 'exclusion') {
+    return { reason: 'criterion not recognised' };
+  }
+  const text = normalize(criterion.text);
+  const diagnosis = patient.diagnoses.find(name => {
+    const normalized = normalize(name);
+    return normalized && text.includes(normalized);
+  });
+  return diagnosis ? { applies: true, reason: `patient diagnosis: ${diagnosis}` } : { reason: 'criterion not recognised' };
+}
+
+/**
+ * Evaluate a patient against one study. The structured sex and age limits
+ * count as inclusion criteria; the score is the share of criteria that are
+ * favourable for the patient, with criteria that could not be evaluated
+ * counting half.
+ */
+export function matchPatientToStudy(study: Study, patient: PatientProfile): TrialMatch {
+  const eligibility = study.protocolSection.eligibilityModule;
+  const match: TrialMatch = {
+    score: 0,
+    eligible: true,
+    metInclusion: [],
+    unmetInclusion: [],
+    exclusionsHit: [],
+    exclusionsCleared: [],
+    notEvaluated: []
+  };
+
+  const sex = eligibility?.sex || 'ALL';
+  if (sex !== 'ALL') {
+    const criterion = `Sex: ${sex}`;
+    if (!patient.sex) {
+      match.notEvaluated.push({ type: 'inclusion', criterion, reason: 'patient sex not given' });
+    } else {
+      (patient.sex === sex ? match.metInclusion : match.unmetInclusion).push({ criterion, reason: `patient is ${patient.sex}` });
+    }
+  }
+
+  if (eligibility?.minimumAge || eligibility?.maximumAge) {
+    const criterion = `Age: ${eligibility.minimumAge || 'no minimum'} to ${eligibility.maximumAge || 'no maximum'}`;
+    const min = parseAgeInYears(eligibility.minimumAge) ?? 0;
+    const max = parseAgeInYears(eligibility.maximumAge) ?? Infinity;
+    if (patient.age === undefined) {
+      match.notEvaluated.push({ type: 'inclusion', criterion, reason: 'patient age not given' });
+    } else {
+      (patient.age >= min && patient.age <= max ? match.metInclusion : match.unmetInclusion)
+        .push({ criterion, reason: `patient is ${patient.age}` });
+    }
+  }
+
+  const { inclusion, exclusion } = parseEligibilityCriteria(eligibility?.eligibilityCriteria);
+  for (const item of leafCriteria(inclusion)) {
+    const { applies, reason } = evaluateCriterion(item, patient, 'inclusion');
+    const criterion = item.text;
+    if (applies === undefined) {
+      match.notEvaluated.push({ type: 'inclusion', criterion, reason });
+    } else {
+      (applies ? match.metInclusion : match.unmetInclusion).push({ criterion, reason });
+    }
+  }
+  for (const item of leafCriteria(exclusion)) {
+    const { applies, reason } = evaluateCriterion(item, patient, 'exclusion');
+    const criterion = item.text;
+    if (applies === undefined) {
+      match.notEvaluated.push({ type: 'exclusion', criterion, reason });
+    } else {
+      (applies ? match.exclusionsHit : match.exclusionsCleared).push({ criterion, reason });
+    }
+  }
+
+  const favourable = match.metInclusion.length + match.exclusionsCleared.length;
+  const unfavourable = match.unmetInclusion.length + match.exclusionsHit.length;
+  const total = favourable + unfavourable + match.notEvaluated.length;
+  match.eligible = unfavourable === 0;
+  match.score = total > 0 ? Math.round((100 * (favourable + match.notEvaluated.length / 2)) / total) : 50;
+  return match;
+}
@@ -0,0 +1,80 @@
+/**
+ * MCP prompt templates for common clinical research workflows
+ *
+ * Each template expands into a user message that tells the model which of
+ * the server's tools to call, in what order, and what to report back.
+ */
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+const optional = (label: string, value?: string) => (value ? `\n- ${label}: ${value}` : '');
+
+export const PROMPTS: PromptTemplate[] = [
+  {
+    name: 'find_trials_for_patient',
+    description: 'Find recruiting trials a specific patient may be eligible for',
+    arguments: [
+      { name: 'condition', description: 'Diagnosis or condition of the patient', required: true },
+      { name: 'age', description: 'Age of the patient in years' },
+      { name: 'sex', description: 'Sex of the patient (FEMALE or MALE)' },
+      { name: 'location', description: 'Where the patient can travel to (city, state or country)' }
+    ],
+    render: args => `Find recruiting clinical trials for this patient:
+- Condition: ${args.condition}${optional('Age', args.age)}${optional('Sex', args.sex)}${optional('Location', args.location)}
+
+Steps:
+1. Call get_recruiting_studies with condition "${args.condition}"${args.location ? ` and location "${args.location}"` : ''}, pageSize 20.
+2. Call search_by_eligibility_criteria with the same condition${args.age ? `, minAge and maxAge "${args.age} Years"` : ''}${args.sex ? `, sex "${args.sex}"` : ''} and healthyVolunteers false to narrow the list.
+3. For the five most promising trials, call get_study_details with sections ["eligibility", "contacts", "locations"].
+
+Report a table of candidate trials (NCT ID, title, phase, nearest site, contact) and, for each, the inclusion or exclusion criteria the patient may not meet. Do not give medical advice; recommend discussing options with the treating physician.`
+  },
+  {
+    name: 'competitive_landscape',
+    description: 'Summarize the clinical development landscape for a drug or intervention',
+    arguments: [
+      { name: 'intervention', description: 'Drug, device or intervention name', required: true },
+      { name: 'condition', description: 'Indication to focus on' }
+    ],
+    render: args => `Summarize the competitive landscape for ${args.intervention}${args.condition ? ` in ${args.condition}` : ''}.
+
+Steps:
+1. Call search_by_intervention with intervention "${args.intervention}" and maxResults 200 to collect the trials.
+2. ${args.condition
+      ? `Call get_competitive_landscape with condition "${args.condition}" and intervention "${args.intervention}" for the sponsors, their most advanced phase and their active and completed trials.`
+      : 'Tally the trials from step 1 by lead sponsor, phase and status.'}
+3. Call get_study_timeline with timelineType "CURRENT"${args.condition ? ` and condition "${args.condition}"` : ''} to see which trials read out next.
+4. Call get_studies_with_results with intervention "${args.intervention}" to find completed trials with posted data.
+
+Report: leading sponsors and their most advanced phase, trials by status, expected primary completion dates in the next two years, and completed trials with results worth reviewing.`
+  },
+  {
+    name: 'compare_trial_endpoints',
+    description: 'Compare the endpoints, results and safety of several trials',
+    arguments: [
+      { name: 'nctIds', description: 'Comma-separated NCT IDs to compare', required: true }
+    ],
+    render: args => {
+      const nctIds = args.nctIds.split(/[\s,]+/).filter(Boolean);
+      return `Compare the endpoints of these trials: ${nctIds.join(', ')}.
+
+Steps:
+1. For each trial, call get_study_details with sections ["design", "armsInterventions", "outcomes"].
+2. For each trial with posted results, call get_study_results with sections ["outcomeMeasures"] and outcomeType "PRIMARY".
+3. Call compare_adverse_events with nctIds ${JSON.stringify(nctIds)} and eventType "SERIOUS".
+
+Report a side-by-side table of primary and key secondary endpoints with their time frames, the per-arm primary endpoint results and analyses where available, and the serious adverse event rates. Point out differences in design (comparator, masking, population) that limit direct comparison.`;
+    }
+  }
+];
@@ -0,0 +1,106 @@
+/**
+ * Rare disease catalog
+ *
+ * A bundled Orphanet-style catalog of rare diseases with their ORPHA codes,
+ * synonyms, point-prevalence class and disease group. search_rare_diseases
+ * resolves the user's term against it and searches on the catalog names
+ * instead of free-text "rare"/"orphan" keywords, and results are annotated
+ * with the catalog entries their conditions match.
+ */
+
+import { foldTerm } from './conditions.js';
+
+// Orphanet point-prevalence classes, rarest first
+export const PREVALENCE_CLASSES = ['<1 / 1 000 000', '1-9 / 1 000 000', '1-9 / 100 000', '1-5 / 10 000', '6-9 / 10 000'] as const;
+
+export type PrevalenceClass = typeof PREVALENCE_CLASSES[number];
+
+export interface RareDisease {
+  name: string;
+  orphaCode: string;
+  synonyms: string[];
+  prevalence: PrevalenceClass;
+  group: string;
+}
+
+export const RARE_DISEASES: RareDisease[] = [
+  { name: 'Cystic fibrosis', orphaCode: 'ORPHA:586', synonyms: ['mucoviscidosis'], prevalence: '1-9 / 100 000', group: 'respiratory' },
+  { name: 'Idiopathic pulmonary fibrosis', orphaCode: 'ORPHA:2032', synonyms: ['IPF', 'cryptogenic fibrosing alveolitis'], prevalence: '1-5 / 10 000', group: 'respiratory' },
+  { name: 'Duchenne muscular dystrophy', orphaCode: 'ORPHA:98896', synonyms: ['DMD', 'Duchenne dystrophy'], prevalence: '1-9 / 100 000', group: 'neuromuscular' },
+  { name: 'Proximal spinal muscular atrophy', orphaCode: 'ORPHA:70', synonyms: ['spinal muscular atrophy', 'SMA'], prevalence: '1-9 / 100 000', group: 'neuromuscular' },
+  { name: 'Amyotrophic lateral sclerosis', orphaCode: 'ORPHA:803', synonyms: ['ALS', "Lou Gehrig's disease", 'Charcot disease'], prevalence: '1-9 / 100 000', group: 'neuromuscular' },
+  { name: 'Myasthenia gravis', orphaCode: 'ORPHA:589', synonyms: ['generalized myasthenia gravis'], prevalence: '1-5 / 10 000', group: 'neuromuscular' },
+  { name: 'Friedreich ataxia', orphaCode: 'ORPHA:95', synonyms: ["Friedreich's ataxia"], prevalence: '1-9 / 100 000', group: 'neurologic' },
+  { name: 'Huntington disease', orphaCode: 'ORPHA:399', synonyms: ["Huntington's disease", "Huntington's chorea"], prevalence: '1-9 / 100 000', group: 'neurologic' },
+  { name: 'Dravet syndrome', orphaCode: 'ORPHA:33069', synonyms: ['severe myoclonic epilepsy in infancy'], prevalence: '1-9 / 100 000', group: 'neurologic' },
+  { name: 'Lennox-Gastaut syndrome', orphaCode: 'ORPHA:2382', synonyms: ['Lennox Gastaut syndrome'], prevalence: '1-9 / 100 000', group: 'neurologic' },
+  { name: 'Rett syndrome', orphaCode: 'ORPHA:778', synonyms: [], prevalence: '1-9 / 100 000', group: 'neurologic' },
+  { name: 'Sickle cell anemia', orphaCode: 'ORPHA:232', synonyms: ['sickle cell disease', 'HbSS disease', 'drepanocytosis'], prevalence: '1-5 / 10 000', group: 'hematologic' },
+  { name: 'Beta-thalassemia', orphaCode: 'ORPHA:848', synonyms: ['beta thalassemia', 'thalassemia major', "Cooley's anemia"], prevalence: '1-9 / 100 000', group: 'hematologic' },
+  { name: 'Hemophilia A', orphaCode: 'ORPHA:98878', synonyms: ['haemophilia A', 'factor VIII deficiency'], prevalence: '1-9 / 100 000', group: 'hematologic' },
+  { name: 'Hemophilia B', orphaCode: 'ORPHA:98879', synonyms: ['haemophilia B', 'factor IX deficiency', 'Christmas disease'], prevalence: '1-9 / 100 000', group: 'hematologic' },
+  { name: 'Paroxysmal nocturnal hemoglobinuria', orphaCode: 'ORPHA:447', synonyms: ['PNH', 'Marchiafava-Micheli syndrome'], prevalence: '1-9 / 1 000 000', group: 'hematologic' },
+  { name: 'Acute myeloid leukemia', orphaCode: 'ORPHA:519', synonyms: ['AML', 'acute myelogenous leukemia'], prevalence: '1-5 / 10 000', group: 'oncologic' },
+  { name: 'Glioblastoma', orphaCode: 'ORPHA:360', synonyms: ['glioblastoma multiforme', 'GBM'], prevalence: '1-9 / 100 000', group: 'oncologic' },
+  { name: 'Gaucher disease', orphaCode: 'ORPHA:355', synonyms: ["Gaucher's disease", 'glucocerebrosidase deficiency'], prevalence: '1-9 / 100 000', group: 'metabolic' },
+  { name: 'Fabry disease', orphaCode: 'ORPHA:324', synonyms: ['Anderson-Fabry disease', 'alpha-galactosidase A deficiency'], prevalence: '1-9 / 100 000', group: 'metabolic' },
+  { name: 'Glycogen storage disease due to acid maltase deficiency', orphaCode: 'ORPHA:365', synonyms: ['Pompe disease', 'glycogen storage disease type II', 'acid maltase deficiency'], prevalence: '1-9 / 100 000', group: 'metabolic' },
+  { name: 'Phenylketonuria', orphaCode: 'ORPHA:716', synonyms: ['PKU', 'phenylalanine hydroxylase deficiency'], prevalence: '1-9 / 100 000', group: 'metabolic' },
+  { name: 'Mucopolysaccharidosis type 1', orphaCode: 'ORPHA:579', synonyms: ['MPS I', 'mucopolysaccharidosis type I', 'Hurler syndrome'], prevalence: '1-9 / 100 000', group: 'metabolic' },
+  { name: 'Niemann-Pick disease type C', orphaCode: 'ORPHA:646', synonyms: ['Niemann Pick type C', 'NPC disease'], prevalence: '1-9 / 1 000 000', group: 'metabolic' },
+  { name: 'Wilson disease', orphaCode: 'ORPHA:905', synonyms: ["Wilson's disease", 'hepatolenticular degeneration'], prevalence: '1-9 / 100 000', group: 'metabolic' },
+  { name: 'Hereditary angioedema', orphaCode: 'ORPHA:91378', synonyms: ['HAE', 'C1 inhibitor deficiency'], prevalence: '1-9 / 100 000', group: 'immunologic' },
+  { name: 'Systemic sclerosis', orphaCode: 'ORPHA:90291', synonyms: ['scleroderma', 'systemic scleroderma'], prevalence: '1-5 / 10 000', group: 'immunologic' },
+  { name: 'Retinitis pigmentosa', orphaCode: 'ORPHA:791', synonyms: ['rod-cone dystrophy'], prevalence: '1-5 / 10 000', group: 'ophthalmic' },
+  { name: 'Marfan syndrome', orphaCode: 'ORPHA:558', synonyms: [], prevalence: '1-5 / 10 000', group: 'developmental' },
+  { name: 'Osteogenesis imperfecta', orphaCode: 'ORPHA:666', synonyms: ['brittle bone disease'], prevalence: '1-9 / 100 000', group: 'developmental' },
+  { name: 'Fragile X syndrome', orphaCode: 'ORPHA:908', synonyms: ['FXS', 'Martin-Bell syndrome'], prevalence: '1-5 / 10 000', group: 'developmental' },
+  { name: 'Prader-Willi syndrome', orphaCode: 'ORPHA:739', synonyms: ['Prader Willi syndrome'], prevalence: '1-9 / 100 000', group: 'developmental' },
+  { name: 'Angelman syndrome', orphaCode: 'ORPHA:72', synonyms: [], prevalence: '1-9 / 100 000', group: 'developmental' },
+  { name: 'Tuberous sclerosis complex', orphaCode: 'ORPHA:805', synonyms: ['tuberous sclerosis', 'Bourneville disease'], prevalence: '1-9 / 100 000', group: 'developmental' },
+  { name: 'Neurofibromatosis type 1', orphaCode: 'ORPHA:636', synonyms: ['NF1', 'von Recklinghausen disease'], prevalence: '1-5 / 10 000', group: 'developmental' }
+];
+
+export const RARE_DISEASE_GROUPS = [...new Set(RARE_DISEASES.map(disease => disease.group))];
+
+const names = (disease: RareDisease) => [disease.name, ...disease.synonyms];
+
+/**
+ * Look a disease up by name, synonym or ORPHA code ("586" and "ORPHA:586"
+ * both work). Falls back to the disease one of whose names contains the term
+ * as whole words, so "Duchenne" finds Duchenne muscular dystrophy, but only
+ * when a single disease does: "hemophilia" or "disease" resolve to nothing.
+ */
+export function findRareDisease(term: string): RareDisease | undefined {
+  const code = term.trim().match(/^(?:orpha:?\s*)?(\d+)$/i);
+  if (code) {
+    return RARE_DISEASES.find(disease => disease.orphaCode === `ORPHA:${code[1]}`);
+  }
+
+  const wanted = foldTerm(term);
+  if (!wanted) {
+    return undefined;
+  }
+  const exact = RARE_DISEASES.find(disease => names(disease).some(name => foldTerm(name) === wanted));
+  if (exact) {
+    return exact;
+  }
+  const partial = RARE_DISEASES.filter(disease => names(disease).some(name => ` ${foldTerm(name)} `.includes(` ${wanted} `)));
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+/**
+ * The catalog diseases a study's free-text conditions refer to.
+ */
+export function matchRareDiseases(conditions: string[]): RareDisease[] {
+  const folded = conditions.map(condition => ` ${foldTerm(condition)} `);
+  return RARE_DISEASES.filter(disease =>
+    names(disease).some(name => folded.some(condition => condition.includes(` ${foldTerm(name)} `))));
+}
+
+/**
+ * A query.cond expression matching every name of the disease.
+ */
+export function rareDiseaseQuery(disease: RareDisease): string {
+  return names(disease).map(name => `"${name.replace(/"/g, '')}"`).join(' OR ');
+}
@@ -0,0 +1,181 @@
+/**
+ * Field-level comparison of study records
+ *
+ * Walks two versions of a record and reports every field that differs by
+ * its path, plus a short list of the changes coordinators usually care
+ * about (status, outcomes, eligibility, enrollment, sites, results, dates).
+ */
+
+import { Study, StudyLocation, StudyOutcome } from './types/study.js';
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+  // Lists whose length changed are reported as the elements added and removed
+  added?: unknown[];
+  removed?: unknown[];
+}
+
+// Bookkeeping the registry updates on every release, never a protocol change
+export const VOLATILE_FIELDS = ['derivedSection.miscInfoModule.versionHolder'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a).filter(key => a[key] !== undefined);
+    return keys.length === Object.keys(b).filter(key => b[key] !== undefined).length &&
+      keys.every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+// Elements of `items` with no equal element left in `others` (multiset difference)
+function difference(items: unknown[], others: unknown[]): unknown[] {
+  const remaining = [...others];
+  return items.filter(item => {
+    const index = remaining.findIndex(other => isEqual(item, other));
+    if (index === -1) {
+      return true;
+    }
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * List the fields that differ between two records. Objects are compared key
+ * by key and lists of equal length element by element, so a site changing
+ * status is reported as "…locations[3].status". Fields whose path is in
+ * `ignore` are skipped.
+ */
+export function diffRecords(before: unknown, after: unknown, ignore: string[] = VOLATILE_FIELDS, path = ''): FieldChange[] {
+  if (ignore.includes(path) || isEqual(before, after)) {
+    return [];
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap(key => diffRecords(before[key], after[key], ignore, path ? `${path}.${key}` : key));
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.length === after.length) {
+      return before.flatMap((item, i) => diffRecords(item, after[i], ignore, `${path}[${i}]`));
+    }
+    return [{ field: path, added: difference(after, before), removed: difference(before, after) }];
+  }
+
+  return [{ field: path, before, after }];
+}
+
+const siteName = (location: StudyLocation) =>
+  [location.facility, location.city, location.country].filter(Boolean).join(', ');
+
+const dateOf = (struct?: { date: string }) => struct?.date;
+
+// Outcomes are matched by their measure; a changed time frame or description
+// of the same measure counts as an amendment
+function summarizeOutcomes(label: string, before: StudyOutcome[] = [], after: StudyOutcome[] = []): string[] {
+  const summary: string[] = [];
+  const previous = new Map(before.map(outcome => [outcome.measure, outcome]));
+  const current = new Map(after.map(outcome => [outcome.measure, outcome]));
+
+  for (const [measure, outcome] of current) {
+    const old = previous.get(measure);
+    if (!old) {
+      summary.push(`${label} outcome added: ${measure}`);
+    } else if (old.timeFrame !== outcome.timeFrame || old.description !== outcome.description) {
+      summary.push(`${label} outcome amended: ${measure}` +
+        (old.timeFrame !== outcome.timeFrame ? ` (time frame ${old.timeFrame || 'not set'} → ${outcome.timeFrame || 'not set'})` : ''));
+    }
+  }
+  for (const measure of previous.keys()) {
+    if (!current.has(measure)) {
+      summary.push(`${label} outcome removed: ${measure}`);
+    }
+  }
+  return summary;
+}
+
+/**
+ * One-line descriptions of the key changes between two versions of a study.
+ */
+export function summarizeStudyChanges(before: Study, after: Study): string[] {
+  const summary: string[] = [];
+  const was = before.protocolSection;
+  const now = after.protocolSection;
+
+  if (was.statusModule?.overallStatus !== now.statusModule?.overallStatus) {
+    summary.push(`Status changed from ${was.statusModule?.overallStatus || 'unknown'} to ${now.statusModule?.overallStatus || 'unknown'}`);
+  }
+
+  summary.push(
+    ...summarizeOutcomes('Primary', was.outcomesModule?.primaryOutcomes, now.outcomesModule?.primaryOutcomes),
+    ...summarizeOutcomes('Secondary', was.outcomesModule?.secondaryOutcomes, now.outcomesModule?.secondaryOutcomes)
+  );
+
+  const eligibilityBefore = was.eligibilityModule;
+  const eligibilityAfter = now.eligibilityModule;
+  if (eligibilityBefore?.eligibilityCriteria !== eligibilityAfter?.eligibilityCriteria) {
+    summary.push('Eligibility criteria amended');
+  }
+  const limits: Array<[string, unknown, unknown]> = [
+    ['Minimum age', eligibilityBefore?.minimumAge, eligibilityAfter?.minimumAge],
+    ['Maximum age', eligibilityBefore?.maximumAge, eligibilityAfter?.maximumAge],
+    ['Sex', eligibilityBefore?.sex, eligibilityAfter?.sex],
+    ['Healthy volunteers', eligibilityBefore?.healthyVolunteers, eligibilityAfter?.healthyVolunteers]
+  ];
+  for (const [label, from, to] of limits) {
+    if (from !== to) {
+      summary.push(`${label} changed from ${from ?? 'not set'} to ${to ?? 'not set'}`);
+    }
+  }
+
+  const enrollmentBefore = was.designModule?.enrollmentInfo;
+  const enrollmentAfter = now.designModule?.enrollmentInfo;
+  if (enrollmentBefore?.count !== enrollmentAfter?.count) {
+    summary.push(`Enrollment changed from ${enrollmentBefore?.count ?? 'not set'} to ${enrollmentAfter?.count ?? 'not set'}` +
+      (enrollmentAfter?.type ? ` (${enrollmentAfter.type.toLowerCase()})` : ''));
+  }
+
+  const sitesBefore = was.contactsLocationsModule?.locations || [];
+  const sitesAfter = now.contactsLocationsModule?.locations || [];
+  const namesBefore = new Set(sitesBefore.map(siteName));
+  const namesAfter = new Set(sitesAfter.map(siteName));
+  const added = [...namesAfter].filter(name => !namesBefore.has(name));
+  const removed = [...namesBefore].filter(name => !namesAfter.has(name));
+  if (added.length > 0) {
+    summary.push(`${added.length} site${added.length === 1 ? '' : 's'} added: ${added.join('; ')}`);
+  }
+  if (removed.length > 0) {
+    summary.push(`${removed.length} site${removed.length === 1 ? '' : 's'} removed: ${removed.join('; ')}`);
+  }
+
+  const hadResults = Boolean(before.hasResults || before.resultsSection);
+  const hasResults = Boolean(after.hasResults || after.resultsSection);
+  if (!hadResults && hasResults) {
+    summary.push('Results posted');
+  }
+
+  const dates: Array<[string, string | undefined, string | undefined]> = [
+    ['Start date', dateOf(was.statusModule?.startDateStruct), dateOf(now.statusModule?.startDateStruct)],
+    ['Primary completion date', dateOf(was.statusModule?.primaryCompletionDateStruct), dateOf(now.statusModule?.primaryCompletionDateStruct)],
+    ['Completion date', dateOf(was.statusModule?.completionDateStruct), dateOf(now.statusModule?.completionDateStruct)]
+  ];
+  for (const [label, from, to] of dates) {
+    if (from !== to) {
+      summary.push(`${label} changed from ${from || 'not set'} to ${to || 'not set'}`);
+    }
+  }
+
+  return summary;
+}
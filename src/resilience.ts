@@ -0,0 +1,251 @@
+/**
+ * Resilience layer for the ClinicalTrials.gov client
+ *
+ * Attaches interceptors to an axios instance that retry idempotent requests
+ * with exponential backoff and jitter (honouring Retry-After), throttle
+ * outgoing requests with a token bucket, and stop calling the upstream API
+ * through a circuit breaker while it keeps failing.
+ */
+
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+export interface ResilienceOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestsPerSecond: number;
+  burst: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+type RetryableConfig = InternalAxiosRequestConfig & { retryAttempt?: number; circuitProbe?: boolean };
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED'];
+
+// Never wait longer than this for a Retry-After header
+const MAX_RETRY_AFTER_MS = 60000;
+
+export const CIRCUIT_OPEN_CODE = 'ECIRCUITOPEN';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Classic token bucket: `capacity` requests may burst, after which callers
+ * wait until tokens refill at `ratePerSecond`. A rate of 0 disables limiting.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private ratePerSecond: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    if (this.ratePerSecond <= 0) {
+      return;
+    }
+
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Opens after `failureThreshold` consecutive upstream failures and rejects
+ * requests until `resetTimeoutMs` has passed. The next request is then let
+ * through as the only probe while the others wait for its outcome: success
+ * closes the circuit, failure re-opens it.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probe: { settled: Promise<void>; settle: () => void } | null = null;
+
+  constructor(private failureThreshold: number, private resetTimeoutMs: number) {}
+
+  /**
+   * Whether a request may go out: `'probe'` when it is the one half-open
+   * trial request, whose outcome must be recorded.
+   */
+  async permit(): Promise<'allow' | 'probe' | 'reject'> {
+    while (this.probe) {
+      await this.probe.settled;
+    }
+    if (this.openedAt === null || this.failureThreshold <= 0) {
+      return 'allow';
+    }
+    if (Date.now() - this.openedAt < this.resetTimeoutMs) {
+      return 'reject';
+    }
+    let settle!: () => void;
+    this.probe = { settled: new Promise<void>(resolve => { settle = resolve; }), settle };
+    return 'probe';
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.endProbe();
+  }
+
+  recordFailure() {
+    this.consecutiveFailures++;
+    if (this.failureThreshold > 0 && (this.probe || this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+    }
+    this.endProbe();
+  }
+
+  /**
+   * Give up a probe that ended without saying anything about the upstream
+   * API; the next waiting request becomes the probe.
+   */
+  abandonProbe() {
+    this.endProbe();
+  }
+
+  retryAfterMs(): number {
+    return this.openedAt === null ? 0 : Math.max(0, this.resetTimeoutMs - (Date.now() - this.openedAt));
+  }
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.probe) {
+      return 'half-open';
+    }
+    return this.openedAt === null ? 'closed' : 'open';
+  }
+
+  private endProbe() {
+    this.probe?.settle();
+    this.probe = null;
+  }
+}
+
+function isUpstreamFailure(error: AxiosError): boolean {
+  if (!error.response) {
+    return RETRYABLE_ERROR_CODES.includes(error.code || '');
+  }
+  return RETRYABLE_STATUS_CODES.includes(error.response.status);
+}
+
+function isRetryable(error: AxiosError): boolean {
+  const method = (error.config?.method || 'get').toLowerCase();
+  return IDEMPOTENT_METHODS.includes(method) && isUpstreamFailure(error);
+}
+
+function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== 'string' && typeof header !== 'number') {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(error: AxiosError, attempt: number, options: ResilienceOptions): number {
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, MAX_RETRY_AFTER_MS);
+  }
+  // Full jitter: random delay up to the exponential ceiling
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Number of retries that were made before the request finally failed.
+ */
+export function retryAttempts(error: AxiosError): number {
+  return (error.config as RetryableConfig | undefined)?.retryAttempt || 0;
+}
+
+/**
+ * Reject rate-limit settings the token bucket could never satisfy: a burst
+ * below one request (or not a number) would make every request wait forever.
+ */
+export function validateResilienceOptions(options: ResilienceOptions) {
+  if (!Number.isFinite(options.requestsPerSecond) || options.requestsPerSecond < 0) {
+    throw new Error(`Invalid API_RATE_LIMIT_RPS: ${options.requestsPerSecond} (expected a number ≥ 0)`);
+  }
+  if (!Number.isFinite(options.burst) || options.burst < 1) {
+    throw new Error(`Invalid API_RATE_LIMIT_BURST: ${options.burst} (expected a number ≥ 1)`);
+  }
+}
+
+export function attachResilience(instance: AxiosInstance, options: ResilienceOptions) {
+  validateResilienceOptions(options);
+  const limiter = new TokenBucket(options.requestsPerSecond, options.burst);
+  const breaker = new CircuitBreaker(options.failureThreshold, options.resetTimeoutMs);
+
+  instance.interceptors.request.use(async (config: RetryableConfig) => {
+    // Retries of the probe are part of the probe
+    const permit = config.circuitProbe ? 'probe' : await breaker.permit();
+    config.circuitProbe = permit === 'probe';
+    if (permit === 'reject') {
+      throw new AxiosError(
+        `Circuit breaker open after ${options.failureThreshold} consecutive upstream failures; ` +
+        `retry in ${Math.ceil(breaker.retryAfterMs() / 1000)}s`,
+        CIRCUIT_OPEN_CODE,
+        config
+      );
+    }
+    await limiter.take();
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    response => {
+      breaker.recordSuccess();
+      return response;
+    },
+    async error => {
+      if (!axios.isAxiosError(error) || !error.config || error.code === CIRCUIT_OPEN_CODE) {
+        if ((error?.config as RetryableConfig | undefined)?.circuitProbe) {
+          breaker.abandonProbe();
+        }
+        throw error;
+      }
+
+      const config = error.config as RetryableConfig;
+      const attempt = config.retryAttempt || 0;
+      if (isRetryable(error) && attempt < options.maxRetries) {
+        config.retryAttempt = attempt + 1;
+        await sleep(backoffDelay(error, attempt, options));
+        return instance.request(config);
+      }
+
+      if (isUpstreamFailure(error)) {
+        breaker.recordFailure();
+      } else if (config.circuitProbe) {
+        // An answer such as 404 shows the API is back; no answer says nothing
+        if (error.response) {
+          breaker.recordSuccess();
+        } else {
+          breaker.abandonProbe();
+        }
+      }
+      throw error;
+    }
+  );
+
+  return { limiter, breaker };
+}
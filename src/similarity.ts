@@ -0,0 +1,173 @@
+/**
+ * Study similarity scoring
+ *
+ * Scores candidate studies against a reference study on several factors,
+ * each between 0 and 1: shared conditions, interventions, phases and
+ * keywords (Jaccard overlap), matching design attributes and overlapping
+ * eligible age ranges. The overall score is the weighted mean of the factors
+ * the reference study has data for.
+ */
+
+import { expandCondition, foldTerm } from './conditions.js';
+import { parseAgeInYears } from './eligibility.js';
+import { Study } from './types/study.js';
+
+export const SIMILARITY_FACTORS = ['conditions', 'interventions', 'phase', 'design', 'ageRange', 'keywords'] as const;
+
+export type SimilarityFactor = typeof SIMILARITY_FACTORS[number];
+
+export type SimilarityWeights = Record<SimilarityFactor, number>;
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  conditions: 3,
+  interventions: 2,
+  phase: 1,
+  design: 1,
+  ageRange: 1,
+  keywords: 1
+};
+
+export interface FactorScore {
+  similarity: number;
+  weight: number;
+  // Share of the overall score this factor contributed
+  contribution: number;
+  shared?: string[];
+}
+
+export interface SimilarityScore {
+  score: number;
+  factors: Partial<Record<SimilarityFactor, FactorScore>>;
+}
+
+export interface SimilarityOptions {
+  weights?: Partial<SimilarityWeights>;
+  // Interventions whose name matches are ignored (e.g. placebo and other comparators)
+  excludeInterventions?: RegExp;
+}
+
+// Upper bound for studies without a maximum age
+const MAX_AGE_YEARS = 100;
+
+const DESIGN_ATTRIBUTES: Array<[string, (study: Study) => string | undefined]> = [
+  ['studyType', study => study.protocolSection.designModule?.studyType],
+  ['allocation', study => study.protocolSection.designModule?.designInfo?.allocation],
+  ['interventionModel', study => study.protocolSection.designModule?.designInfo?.interventionModel],
+  ['primaryPurpose', study => study.protocolSection.designModule?.designInfo?.primaryPurpose],
+  ['masking', study => study.protocolSection.designModule?.designInfo?.maskingInfo?.masking]
+];
+
+interface Profile {
+  // Folded term → name as registered, for reporting what is shared
+  conditions: Map<string, string>;
+  interventions: Map<string, string>;
+  keywords: Map<string, string>;
+  phases: Map<string, string>;
+  design: Map<string, string>;
+  ageRange: [number, number];
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function termMap(names: string[], key: (name: string) => string = foldTerm): Map<string, string> {
+  return new Map(names.map(name => [key(name), name] as const).filter(([folded]) => folded));
+}
+
+// Shared keys over all keys; both empty counts as no overlap
+function jaccard(a: Map<string, string>, b: Map<string, string>): { similarity: number; shared: string[] } {
+  const shared = [...a.keys()].filter(key => b.has(key));
+  const union = new Set([...a.keys(), ...b.keys()]).size;
+  return { similarity: union ? shared.length / union : 0, shared: shared.map(key => a.get(key)!) };
+}
+
+export class SimilarityScorer {
+  readonly weights: SimilarityWeights;
+  private reference: Profile;
+
+  constructor(reference: Study, private options: SimilarityOptions = {}) {
+    this.weights = { ...DEFAULT_SIMILARITY_WEIGHTS, ...options.weights };
+    this.reference = this.profile(reference);
+  }
+
+  /**
+   * The factors the reference study has data for; the others are left out
+   * of every score instead of counting as a mismatch.
+   */
+  get factors(): SimilarityFactor[] {
+    const ref = this.reference;
+    return SIMILARITY_FACTORS.filter(factor => this.weights[factor] > 0 && {
+      conditions: ref.conditions.size > 0,
+      interventions: ref.interventions.size > 0,
+      phase: ref.phases.size > 0,
+      design: ref.design.size > 0,
+      ageRange: true,
+      keywords: ref.keywords.size > 0
+    }[factor]);
+  }
+
+  score(candidate: Study): SimilarityScore {
+    const profile = this.profile(candidate);
+    const factors: Partial<Record<SimilarityFactor, FactorScore>> = {};
+    const available = this.factors;
+    const totalWeight = available.reduce((sum, factor) => sum + this.weights[factor], 0);
+
+    let score = 0;
+    for (const factor of available) {
+      const { similarity, shared } = this.compare(factor, profile);
+      const weight = this.weights[factor];
+      const contribution = totalWeight ? (weight * similarity) / totalWeight : 0;
+      score += contribution;
+      factors[factor] = { similarity: round(similarity), weight, contribution: round(contribution), ...(shared && { shared }) };
+    }
+    return { score: round(score), factors };
+  }
+
+  private compare(factor: SimilarityFactor, candidate: Profile): { similarity: number; shared?: string[] } {
+    const ref = this.reference;
+    switch (factor) {
+      case 'conditions':
+        return jaccard(ref.conditions, candidate.conditions);
+      case 'interventions':
+        return jaccard(ref.interventions, candidate.interventions);
+      case 'keywords':
+        return jaccard(ref.keywords, candidate.keywords);
+      case 'phase':
+        return jaccard(ref.phases, candidate.phases);
+      case 'design': {
+        // Share of the reference's design attributes the candidate matches
+        const shared = [...ref.design].filter(([attribute, value]) => candidate.design.get(attribute) === value);
+        return { similarity: shared.length / ref.design.size, shared: shared.map(([attribute, value]) => `${attribute}: ${value}`) };
+      }
+      case 'ageRange': {
+        const [minA, maxA] = ref.ageRange;
+        const [minB, maxB] = candidate.ageRange;
+        const overlap = Math.max(0, Math.min(maxA, maxB) - Math.max(minA, minB));
+        const union = Math.max(maxA, maxB) - Math.min(minA, minB);
+        return { similarity: union > 0 ? overlap / union : 1 };
+      }
+    }
+  }
+
+  private profile(study: Study): Profile {
+    const protocol = study.protocolSection;
+    const interventions = (protocol.armsInterventionsModule?.interventions || [])
+      .map(intervention => intervention.name)
+      .filter(name => !this.options.excludeInterventions?.test(name));
+    const eligibility = protocol.eligibilityModule;
+
+    return {
+      // Conditions known to the vocabulary compare by concept, so synonyms match
+      conditions: termMap(protocol.conditionsModule?.conditions || [], name => foldTerm(expandCondition(name).concept || name)),
+      interventions: termMap(interventions),
+      keywords: termMap(protocol.conditionsModule?.keywords || []),
+      phases: termMap((protocol.designModule?.phases || []).filter(phase => phase !== 'NA')),
+      design: new Map(DESIGN_ATTRIBUTES
+        .map(([attribute, value]) => [attribute, value(study)] as const)
+        .filter((entry): entry is readonly [string, string] => Boolean(entry[1]))),
+      ageRange: [
+        parseAgeInYears(eligibility?.minimumAge) ?? 0,
+        Math.min(parseAgeInYears(eligibility?.maximumAge) ?? MAX_AGE_YEARS, MAX_AGE_YEARS)
+      ]
+    };
+  }
+}
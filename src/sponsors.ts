@@ -0,0 +1,126 @@
+/**
+ * Sponsor name normalization
+ *
+ * Registry sponsor names vary in legal-entity suffixes ("Pfizer", "Pfizer
+ * Inc." and "Pfizer, Inc"), and acquired subsidiaries keep registering under
+ * their own names. Names are reduced to a comparison key without suffixes or
+ * punctuation, and a bundled alias table maps parent companies and their
+ * subsidiaries to one canonical name. Extra aliases can be loaded from a JSON
+ * file of the same shape as SPONSOR_ALIASES.
+ */
+
+import { readFileSync } from 'fs';
+
+// Canonical name → other names the same organization registers under
+export const SPONSOR_ALIASES: Record<string, string[]> = {
+  'AbbVie': ['Allergan', 'Pharmacyclics', 'ImmunoGen', 'Cerevel Therapeutics'],
+  'Amgen': ['Horizon Therapeutics', 'Onyx Therapeutics'],
+  'AstraZeneca': ['MedImmune', 'Alexion Pharmaceuticals', 'Acerta Pharma'],
+  'Bayer': ['Bayer HealthCare', 'Bayer Pharmaceuticals'],
+  'Boehringer Ingelheim': ['Boehringer Ingelheim Pharmaceuticals', 'Boehringer Ingelheim International'],
+  'Bristol-Myers Squibb': ['BMS', 'Bristol Myers Squibb', 'Celgene', 'Juno Therapeutics', 'MyoKardia', 'Turning Point Therapeutics', 'Mirati Therapeutics', 'Karuna Therapeutics'],
+  'Eli Lilly and Company': ['Lilly', 'Loxo Oncology'],
+  'Gilead Sciences': ['Kite Pharma', 'Immunomedics'],
+  'GlaxoSmithKline': ['GSK', 'ViiV Healthcare', 'Tesaro', 'Stiefel Laboratories', 'Sierra Oncology'],
+  'Hoffmann-La Roche': ['Roche', 'F. Hoffmann-La Roche', 'Roche Pharma', 'Genentech', 'Chugai Pharmaceutical'],
+  'Johnson & Johnson': ['Janssen Research & Development', 'Janssen Pharmaceutica', 'Janssen Pharmaceutical', 'Janssen Vaccines & Prevention', 'Janssen Scientific Affairs', 'Actelion', 'Momenta Pharmaceuticals', 'Abiomed'],
+  'Merck KGaA': ['Merck KGaA, Darmstadt, Germany', 'Merck Healthcare KGaA', 'EMD Serono'],
+  'Merck Sharp & Dohme': ['MSD', 'Merck & Co.', 'Schering-Plough', 'Acceleron Pharma', 'Prometheus Biosciences'],
+  'National Cancer Institute (NCI)': ['National Cancer Institute', 'NCI'],
+  'Novartis': ['Novartis Pharmaceuticals', 'Novartis Pharma', 'Novartis Gene Therapies', 'AveXis', 'Advanced Accelerator Applications', 'The Medicines Company'],
+  'Novo Nordisk': [],
+  'Pfizer': ['Wyeth', 'Wyeth Pharmaceuticals', 'Hospira', 'Seagen', 'Seattle Genetics', 'Array BioPharma', 'Arena Pharmaceuticals', 'Global Blood Therapeutics'],
+  'Sanofi': ['Sanofi Pasteur', 'Genzyme', 'Sanofi Genzyme', 'Bioverativ', 'Principia Biopharma', 'Kadmon'],
+  'Takeda': ['Takeda Pharmaceutical', 'Takeda Development Center Americas', 'Shire', 'Baxalta', 'Millennium Pharmaceuticals']
+};
+
+// Trailing legal-entity designations, optionally after "and"/"&" ("Eli Lilly and Company", "Merck & Co.")
+const LEGAL_SUFFIX = /[\s,]+(?:(?:and|&)\s+)?(?:inc|incorporated|corp|corporation|co|company|ltd|limited|llc|l\.l\.c|lp|l\.p|plc|gmbh|ag|sa|s\.a|s\.p\.a|spa|nv|n\.v|bv|b\.v|se|kk|k\.k|pty|ab|a\/s|as|oy|oyj)\.?$/i;
+
+export interface SponsorGroup {
+  canonical: string;
+  aliases: string[];
+}
+
+const aliasIndex = new Map<string, SponsorGroup>();
+
+/**
+ * The name without trailing legal-entity suffixes; the name itself when
+ * nothing else would be left.
+ */
+export function stripLegalSuffixes(name: string): string {
+  let stripped = name.trim();
+  for (let next = stripped.replace(LEGAL_SUFFIX, ''); next !== stripped && next; next = stripped.replace(LEGAL_SUFFIX, '')) {
+    stripped = next.replace(/[\s,]+$/, '');
+  }
+  return stripped || name.trim();
+}
+
+/**
+ * Comparison key: no suffixes, trailing acronym in parentheses, accents,
+ * case or punctuation, so "F. Hoffmann-La Roche Ltd" and "f hoffmann la
+ * roche" share a key.
+ */
+export function sponsorKey(name: string): string {
+  return stripLegalSuffixes(name)
+    .replace(/\s*\([^)]*\)$/, '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Add alias groups; aliases of a canonical name that is already known are
+ * merged into its group.
+ */
+export function registerSponsorAliases(table: Record<string, string[]>) {
+  for (const [canonical, aliases] of Object.entries(table)) {
+    const group = aliasIndex.get(sponsorKey(canonical)) || { canonical, aliases: [] };
+    for (const name of [canonical, ...aliases]) {
+      if (name !== group.canonical && !group.aliases.includes(name)) {
+        group.aliases.push(name);
+      }
+      aliasIndex.set(sponsorKey(name), group);
+    }
+  }
+}
+
+/**
+ * Load extra alias groups from a JSON file mapping canonical names to alias
+ * lists. A missing or invalid file is logged and ignored.
+ */
+export function loadSponsorAliasFile(file: string) {
+  try {
+    registerSponsorAliases(JSON.parse(readFileSync(file, 'utf8')));
+  } catch (error) {
+    console.error('[Sponsors] Failed to load sponsor aliases:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * The alias group a name belongs to, if any.
+ */
+export function sponsorGroup(name: string): SponsorGroup | undefined {
+  return aliasIndex.get(sponsorKey(name));
+}
+
+/**
+ * The canonical name of a sponsor: its alias group's name when it has one,
+ * otherwise the name without legal-entity suffixes.
+ */
+export function normalizeSponsor(name: string): string {
+  return sponsorGroup(name)?.canonical || stripLegalSuffixes(name);
+}
+
+/**
+ * A query.spons expression matching the sponsor under any of its known
+ * names, e.g. `"Pfizer" OR "Wyeth" OR …`.
+ */
+export function sponsorAliasQuery(group: SponsorGroup): string {
+  return [group.canonical, ...group.aliases].map(name => `"${name.replace(/"/g, '')}"`).join(' OR ');
+}
+
+registerSponsorAliases(SPONSOR_ALIASES);
@@ -0,0 +1,207 @@
+/**
+ * Trial statistics
+ *
+ * Tallies studies by one field or by a pair of fields as they are paged in
+ * from the API, so counts cover the whole matching set without holding it in
+ * memory. Multi-valued fields count every value: a phase 1/2 study counts
+ * once under PHASE1 and once under PHASE2. Trend tallies bucket studies by
+ * the year of one of their status dates instead.
+ */
+
+import { conditionCategory } from './conditions.js';
+import { normalizeSponsor } from './sponsors.js';
+import { Study } from './types/study.js';
+
+interface StatisticsFieldDefinition {
+  // API field that carries the values, requested through `fields` to keep pages small
+  apiField: string;
+  values(study: Study): Array<string | undefined>;
+}
+
+export const STATISTICS_FIELDS: Record<string, StatisticsFieldDefinition> = {
+  status: {
+    apiField: 'OverallStatus',
+    values: study => [study.protocolSection.statusModule?.overallStatus]
+  },
+  phase: {
+    apiField: 'Phase',
+    values: study => study.protocolSection.designModule?.phases || []
+  },
+  studyType: {
+    apiField: 'StudyType',
+    values: study => [study.protocolSection.designModule?.studyType]
+  },
+  condition: {
+    apiField: 'Condition',
+    values: study => study.protocolSection.conditionsModule?.conditions || []
+  },
+  // Conditions rolled up to their top-level category in the condition vocabulary
+  conditionCategory: {
+    apiField: 'Condition',
+    values: study => (study.protocolSection.conditionsModule?.conditions || []).map(conditionCategory)
+  },
+  // Spelling variants and known subsidiaries count under one canonical name
+  sponsor: {
+    apiField: 'LeadSponsorName',
+    values: study => {
+      const name = study.protocolSection.sponsorCollaboratorsModule?.leadSponsor?.name;
+      return [name && normalizeSponsor(name)];
+    }
+  },
+  sponsorClass: {
+    apiField: 'LeadSponsorClass',
+    values: study => [study.protocolSection.sponsorCollaboratorsModule?.leadSponsor?.class]
+  }
+};
+
+export type StatisticsField = keyof typeof STATISTICS_FIELDS;
+
+const NOT_SPECIFIED = 'Not specified';
+
+/**
+ * The distinct values of a field for one study; studies without a value are
+ * counted under "Not specified".
+ */
+export function fieldValues(study: Study, field: StatisticsField): string[] {
+  const values = STATISTICS_FIELDS[field].values(study).filter((value): value is string => Boolean(value));
+  return values.length > 0 ? [...new Set(values)] : [NOT_SPECIFIED];
+}
+
+type Counts = Record<string, number>;
+
+// Largest groups first; ties keep first-seen order
+function sortCounts(counts: Counts): Counts {
+  return Object.fromEntries(Object.entries(counts).sort(([, a], [, b]) => b - a));
+}
+
+/**
+ * Counts studies by `field`, or by `field` × `crossField` when a second field
+ * is given.
+ */
+export class StudyTally {
+  private counts: Counts = {};
+  private crossCounts: Record<string, Counts> = {};
+
+  constructor(private field: StatisticsField, private crossField?: StatisticsField) {}
+
+  add(study: Study) {
+    const crossValues = this.crossField ? fieldValues(study, this.crossField) : [];
+    for (const value of fieldValues(study, this.field)) {
+      this.counts[value] = (this.counts[value] || 0) + 1;
+      if (this.crossField) {
+        const row = this.crossCounts[value] ||= {};
+        for (const crossValue of crossValues) {
+          row[crossValue] = (row[crossValue] || 0) + 1;
+        }
+      }
+    }
+  }
+
+  /**
+   * One-field tallies map each value to its count. Two-field tallies map each
+   * value of the first field to the counts of the second, in the order of the
+   * first field's totals.
+   */
+  result(): Counts | Record<string, Counts> {
+    if (!this.crossField) {
+      return sortCounts(this.counts);
+    }
+    return Object.fromEntries(Object.keys(sortCounts(this.counts)).map(value => [value, sortCounts(this.crossCounts[value])]));
+  }
+}
+
+export const TREND_DATE_FIELDS = {
+  startYear: {
+    apiField: 'StartDate',
+    date: (study: Study) => study.protocolSection.statusModule?.startDateStruct?.date
+  },
+  firstPostedYear: {
+    apiField: 'StudyFirstPostDate',
+    date: (study: Study) => study.protocolSection.statusModule?.studyFirstPostDateStruct?.date
+  },
+  completionYear: {
+    apiField: 'CompletionDate',
+    date: (study: Study) => study.protocolSection.statusModule?.completionDateStruct?.date
+  }
+};
+
+export type TrendDateField = keyof typeof TREND_DATE_FIELDS;
+
+export interface TrendPoint {
+  year: number;
+  count: number;
+  // Against the previous year; null for the first year, and for the percentage when the previous year had none
+  change: number | null;
+  changePercent: number | null;
+}
+
+function toSeries(counts: Map<number, number>, years: number[]): TrendPoint[] {
+  return years.map((year, i) => {
+    const count = counts.get(year) || 0;
+    const previous = i > 0 ? counts.get(years[i - 1]) || 0 : undefined;
+    return {
+      year,
+      count,
+      change: previous === undefined ? null : count - previous,
+      changePercent: previous ? Math.round((1000 * (count - previous)) / previous) / 10 : null
+    };
+  });
+}
+
+/**
+ * Counts studies per year of a status date, optionally split by a field.
+ * Years with no studies inside the covered range are reported as zero.
+ */
+export class TrendTally {
+  private counts = new Map<number, number>();
+  private splitCounts = new Map<string, Map<number, number>>();
+  undated = 0;
+  outOfRange = 0;
+
+  constructor(
+    private dateField: TrendDateField,
+    private splitBy?: StatisticsField,
+    private range: { fromYear?: number; toYear?: number } = {}
+  ) {}
+
+  add(study: Study) {
+    const year = Number.parseInt(TREND_DATE_FIELDS[this.dateField].date(study) || '', 10);
+    if (Number.isNaN(year)) {
+      this.undated++;
+      return;
+    }
+    if (year < (this.range.fromYear ?? -Infinity) || year > (this.range.toYear ?? Infinity)) {
+      this.outOfRange++;
+      return;
+    }
+
+    this.counts.set(year, (this.counts.get(year) || 0) + 1);
+    if (this.splitBy) {
+      for (const value of fieldValues(study, this.splitBy)) {
+        const counts = this.splitCounts.get(value) || new Map<number, number>();
+        counts.set(year, (counts.get(year) || 0) + 1);
+        this.splitCounts.set(value, counts);
+      }
+    }
+  }
+
+  result(): { series: TrendPoint[]; splits?: Record<string, TrendPoint[]> } {
+    const seen = [...this.counts.keys()];
+    const first = this.range.fromYear ?? Math.min(...seen);
+    const last = this.range.toYear ?? Math.max(...seen);
+    const years = seen.length > 0 || (this.range.fromYear !== undefined && this.range.toYear !== undefined)
+      ? Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => first + i)
+      : [];
+
+    const series = toSeries(this.counts, years);
+    if (!this.splitBy) {
+      return { series };
+    }
+
+    // Largest splits first
+    const splits = [...this.splitCounts.entries()]
+      .map(([value, counts]) => [value, counts, [...counts.values()].reduce((sum, count) => sum + count, 0)] as const)
+      .sort((a, b) => b[2] - a[2]);
+    return { series, splits: Object.fromEntries(splits.map(([value, counts]) => [value, toSeries(counts, years)])) };
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Study sources
+ *
+ * A study source answers /studies queries expressed with the same query.*
+ * and filter.* parameters the tool handlers build. The API source forwards
+ * them to ClinicalTrials.gov; the fixture source evaluates them against a
+ * local directory of v2 JSON records so the server can run without network.
+ * Both also serve a study's record history and its past versions.
+ */
+
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseAgeInYears } from './eligibility.js';
+import { distanceBetween, parseGeoFilter } from './geo.js';
+import { Study, StudyHistoryResponse, StudyLocation, StudySearchResponse, StudyVersion } from './types/study.js';
+
+export type StudyQueryParams = Record<string, any>;
+
+export interface StudySource {
+  readonly name: string;
+  searchStudies(params: StudyQueryParams): Promise<StudySearchResponse>;
+  /** Versions of a study's record, oldest first; undefined for unknown studies */
+  getStudyHistory(nctId: string): Promise<StudyVersion[] | undefined>;
+  /** The record as it stood at a version; undefined when there is no such version */
+  getStudyVersion(nctId: string, version: number): Promise<Study | undefined>;
+}
+
+export class ApiStudySource implements StudySource {
+  readonly name = 'api';
+
+  /**
+   * Record history is not part of the v2 API; it is served by the registry's
+   * internal API that backs the "History of Changes" page on the website.
+   */
+  constructor(private axiosInstance: AxiosInstance, private historyBaseUrl: string) {}
+
+  async searchStudies(params: StudyQueryParams): Promise<StudySearchResponse> {
+    const response: AxiosResponse<StudySearchResponse> = await this.axiosInstance.get('/studies', { params });
+    return response.data;
+  }
+
+  async getStudyHistory(nctId: string): Promise<StudyVersion[] | undefined> {
+    const response = await this.getOrUndefined<StudyHistoryResponse>(`${this.historyBaseUrl}/studies/${nctId}/history`);
+    return response?.changes;
+  }
+
+  async getStudyVersion(nctId: string, version: number): Promise<Study | undefined> {
+    const response = await this.getOrUndefined<{ study?: Study }>(`${this.historyBaseUrl}/studies/${nctId}/history/${version}`);
+    return response?.study;
+  }
+
+  private async getOrUndefined<T>(url: string): Promise<T | undefined> {
+    try {
+      const response: AxiosResponse<T> = await this.axiosInstance.get(url);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Record history kept next to the fixtures in `history/<NCT ID>.json`:
+ * the version list and the full record at each version.
+ */
+interface FixtureHistory {
+  changes: StudyVersion[];
+  versions: Record<string, Study>;
+}
+
+/**
+ * Serves studies from `*.json` files in a directory. Each file holds either
+ * one study record (with a protocolSection) or a search response with a
+ * `studies` array. Records are loaded once on first use.
+ */
+export class FixtureStudySource implements StudySource {
+  readonly name = 'fixtures';
+  private studies: Study[] | null = null;
+
+  constructor(private directory: string) {}
+
+  async searchStudies(params: StudyQueryParams): Promise<StudySearchResponse> {
+    const studies = await this.load();
+    const matches = studies.filter(study => matchesQuery(study, params));
+
+    const pageSize = Number(params.pageSize) || DEFAULT_PAGE_SIZE;
+    const offset = params.pageToken ? Number.parseInt(String(params.pageToken), 10) || 0 : 0;
+    const page = matches.slice(offset, offset + pageSize);
+    const nextOffset = offset + page.length;
+
+    return {
+      studies: page,
+      totalCount: matches.length,
+      nextPageToken: nextOffset < matches.length ? String(nextOffset) : undefined
+    };
+  }
+
+  async getStudyHistory(nctId: string): Promise<StudyVersion[] | undefined> {
+    return (await this.loadHistory(nctId))?.changes;
+  }
+
+  async getStudyVersion(nctId: string, version: number): Promise<Study | undefined> {
+    return (await this.loadHistory(nctId))?.versions[String(version)];
+  }
+
+  private async loadHistory(nctId: string): Promise<FixtureHistory | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, 'history', `${path.basename(nctId)}.json`), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async load(): Promise<Study[]> {
+    if (this.studies) {
+      return this.studies;
+    }
+
+    const files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json')).sort();
+    const studies: Study[] = [];
+    for (const file of files) {
+      const record = JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8'));
+      if (Array.isArray(record?.studies)) {
+        studies.push(...record.studies);
+      } else if (record?.protocolSection) {
+        studies.push(record);
+      }
+    }
+
+    this.studies = studies;
+    return studies;
+  }
+}
+
+function matchesQuery(study: Study, params: StudyQueryParams): boolean {
+  const protocol = study.protocolSection;
+  const locations = protocol.contactsLocationsModule?.locations || [];
+  const interventions = protocol.armsInterventionsModule?.interventions || [];
+
+  const textChecks: Array<[string, () => string[]]> = [
+    ['query.cond', () => [...(protocol.conditionsModule?.conditions || []), ...(protocol.conditionsModule?.keywords || [])]],
+    ['query.intr', () => interventions.flatMap(intervention => [intervention.name, ...(intervention.otherNames || [])])],
+    ['query.locn', () => locations.map(location => [location.facility, location.city, location.state, location.zip, location.country].join(' '))],
+    ['query.spons', () => [
+      protocol.sponsorCollaboratorsModule?.leadSponsor?.name || '',
+      ...(protocol.sponsorCollaboratorsModule?.collaborators || []).map(collaborator => collaborator.name)
+    ]],
+    ['query.outc', () => [
+      ...(protocol.outcomesModule?.primaryOutcomes || []),
+      ...(protocol.outcomesModule?.secondaryOutcomes || [])
+    ].map(outcome => `${outcome.measure} ${outcome.description || ''}`)],
+    ['query.titles', () => [protocol.identificationModule.briefTitle, protocol.identificationModule.officialTitle || '']],
+    ['query.eligibility', () => [protocol.eligibilityModule?.eligibilityCriteria || '']],
+    ['query.term', () => [JSON.stringify(protocol)]]
+  ];
+
+  for (const [param, fields] of textChecks) {
+    if (params[param] && !matchesText(String(params[param]), fields())) {
+      return false;
+    }
+  }
+
+  const listChecks: Array<[string, () => string[]]> = [
+    ['filter.ids', () => [protocol.identificationModule.nctId]],
+    ['filter.overallStatus', () => [protocol.statusModule.overallStatus]],
+    ['filter.phase', () => protocol.designModule?.phases || []],
+    ['filter.sex', () => {
+      const sex = protocol.eligibilityModule?.sex || 'ALL';
+      return sex === 'ALL' ? ['ALL', 'FEMALE', 'MALE'] : [sex];
+    }],
+    ['filter.stdAge', () => protocol.eligibilityModule?.stdAges || deriveStdAges(study)],
+    ['filter.leadSponsorClass', () => [protocol.sponsorCollaboratorsModule?.leadSponsor?.class || '']],
+    ['filter.interventionType', () => interventions.map(intervention => intervention.type)]
+  ];
+
+  for (const [param, values] of listChecks) {
+    if (params[param] === undefined) {
+      continue;
+    }
+    const wanted = String(params[param]).split(/[,|]/).map(value => value.trim().toUpperCase());
+    const actual = values().map(value => value.toUpperCase());
+    if (!wanted.some(value => actual.includes(value))) {
+      return false;
+    }
+  }
+
+  if (params['filter.hasResults'] !== undefined && String(params['filter.hasResults']) !== String(Boolean(study.hasResults || study.resultsSection))) {
+    return false;
+  }
+  if (params['filter.healthyVolunteers'] !== undefined &&
+      String(params['filter.healthyVolunteers']) !== String(Boolean(protocol.eligibilityModule?.healthyVolunteers))) {
+    return false;
+  }
+
+  if (params['filter.geo'] && !matchesGeoFilter(locations, String(params['filter.geo']))) {
+    return false;
+  }
+
+  if (!matchesAgeRange(study, params['filter.minimumAge'], params['filter.maximumAge'])) {
+    return false;
+  }
+
+  const dateChecks: Array<[string, string, string | undefined]> = [
+    ['filter.studyStartDateFrom', 'filter.studyStartDateTo', protocol.statusModule.startDateStruct?.date],
+    ['filter.primaryCompletionDateFrom', 'filter.primaryCompletionDateTo', protocol.statusModule.primaryCompletionDateStruct?.date]
+  ];
+
+  for (const [fromParam, toParam, date] of dateChecks) {
+    if ((params[fromParam] || params[toParam]) && !date) {
+      return false;
+    }
+    if (params[fromParam] && normalizeDate(date!) < params[fromParam]) {
+      return false;
+    }
+    if (params[toParam] && normalizeDate(date!) > params[toParam]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Case-insensitive match supporting `A OR B` alternatives; each alternative
+ * matches when every one of its words appears in the fields.
+ */
+function matchesText(query: string, fields: string[]): boolean {
+  const haystack = fields.join(' \n ').toLowerCase();
+  return query.split(/\s+OR\s+/).some(alternative => {
+    const words = alternative.toLowerCase().replace(/["()]/g, ' ').split(/\s+/).filter(Boolean);
+    return words.length > 0 && words.every(word => haystack.includes(word));
+  });
+}
+
+function matchesGeoFilter(locations: StudyLocation[], value: string): boolean {
+  const filter = parseGeoFilter(value);
+  return Boolean(filter) && locations.some(location =>
+    location.geoPoint && distanceBetween(filter!, location.geoPoint, filter!.unit) <= filter!.distance);
+}
+
+function matchesAgeRange(study: Study, minimumAge?: string, maximumAge?: string): boolean {
+  if (!minimumAge && !maximumAge) {
+    return true;
+  }
+  const eligibility = study.protocolSection.eligibilityModule;
+  const studyMin = parseAgeInYears(eligibility?.minimumAge) ?? 0;
+  const studyMax = parseAgeInYears(eligibility?.maximumAge) ?? Infinity;
+  const wantedMin = parseAgeInYears(minimumAge) ?? 0;
+  const wantedMax = parseAgeInYears(maximumAge) ?? Infinity;
+  // Ranges overlap
+  return studyMin <= wantedMax && studyMax >= wantedMin;
+}
+
+function deriveStdAges(study: Study): string[] {
+  const eligibility = study.protocolSection.eligibilityModule;
+  const min = parseAgeInYears(eligibility?.minimumAge) ?? 0;
+  const max = parseAgeInYears(eligibility?.maximumAge) ?? Infinity;
+  const groups: string[] = [];
+  if (min < 18) {
+    groups.push('CHILD');
+  }
+  if (min < 65 && max >= 18) {
+    groups.push('ADULT');
+  }
+  if (max >= 65) {
+    groups.push('OLDER_ADULT');
+  }
+  return groups;
+}
+
+/**
+ * Pad partial API dates ("2023-04" or "2023") so they compare as YYYY-MM-DD.
+ */
+function normalizeDate(date: string): string {
+  const [year, month = '01', day = '01'] = date.split('-');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,34 @@
+// Minimal typings for the offline gazetteer packages, which ship none
+
+declare module 'all-the-cities' {
+  export interface City {
+    cityId: number;
+    name: string;
+    altName: string;
+    country: string;
+    featureCode: string;
+    adminCode: string;
+    population: number;
+    loc: { type: 'Point'; coordinates: [number, number] };
+  }
+
+  const cities: City[];
+  export default cities;
+}
+
+declare module 'zipcodes' {
+  export interface PostalCode {
+    zip: string;
+    latitude: number;
+    longitude: number;
+    city: string;
+    state: string;
+    country: string;
+  }
+
+  const zipcodes: {
+    lookup(zip: string): PostalCode | undefined;
+    states: { normalize(state: string): string };
+  };
+  export default zipcodes;
+}
@@ -0,0 +1,448 @@
+/**
+ * ClinicalTrials.gov API v2 record types
+ *
+ * Raw shapes returned by the /studies endpoint, plus the normalized
+ * structures the tools build from them.
+ */
+
+export interface StudySearchResponse {
+  studies: Study[];
+  totalCount: number;
+  nextPageToken?: string;
+}
+
+// One entry of a study's record history (the registry's /history endpoint)
+export interface StudyVersion {
+  version: number;
+  date: string;
+  status?: string;
+  moduleLabels?: string[];
+}
+
+export interface StudyHistoryResponse {
+  changes: StudyVersion[];
+}
+
+export interface DateStruct {
+  date: string;
+  type?: string;
+}
+
+export interface StudyContact {
+  name?: string;
+  role?: string;
+  phone?: string;
+  phoneExt?: string;
+  email?: string;
+}
+
+export interface StudyLocation {
+  facility: string;
+  status?: string;
+  city: string;
+  state?: string;
+  zip?: string;
+  country: string;
+  contacts?: StudyContact[];
+  geoPoint?: {
+    lat: number;
+    lon: number;
+  };
+}
+
+export interface StudyOutcome {
+  measure: string;
+  description?: string;
+  timeFrame?: string;
+}
+
+export interface ResultGroupRaw {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface ResultCountsRaw {
+  units?: string;
+  counts: Array<{
+    groupId: string;
+    value: string;
+  }>;
+}
+
+export interface ResultMeasurementRaw {
+  groupId: string;
+  value?: string;
+  spread?: string;
+  lowerLimit?: string;
+  upperLimit?: string;
+  comment?: string;
+}
+
+export interface ResultClassRaw {
+  title?: string;
+  denoms?: ResultCountsRaw[];
+  categories?: Array<{
+    title?: string;
+    measurements?: ResultMeasurementRaw[];
+  }>;
+}
+
+export interface AdverseEventRaw {
+  term: string;
+  organSystem: string;
+  sourceVocabulary?: string;
+  assessmentType?: string;
+  notes?: string;
+  stats?: Array<{
+    groupId: string;
+    numEvents?: number;
+    numAffected?: number;
+    numAtRisk?: number;
+  }>;
+}
+
+export interface StudyResultsSection {
+  participantFlowModule?: {
+    preAssignmentDetails?: string;
+    recruitmentDetails?: string;
+    groups?: ResultGroupRaw[];
+    periods?: Array<{
+      title: string;
+      milestones?: Array<{
+        type: string;
+        achievements?: Array<{
+          groupId: string;
+          numSubjects?: string;
+        }>;
+      }>;
+      dropWithdraws?: Array<{
+        type: string;
+        reasons?: Array<{
+          groupId: string;
+          numSubjects?: string;
+        }>;
+      }>;
+    }>;
+  };
+  baselineCharacteristicsModule?: {
+    populationDescription?: string;
+    groups?: ResultGroupRaw[];
+    denoms?: ResultCountsRaw[];
+    measures?: Array<{
+      title: string;
+      paramType?: string;
+      dispersionType?: string;
+      unitOfMeasure?: string;
+      classes?: ResultClassRaw[];
+    }>;
+  };
+  outcomeMeasuresModule?: {
+    outcomeMeasures?: Array<{
+      type: string;
+      title: string;
+      description?: string;
+      populationDescription?: string;
+      reportingStatus?: string;
+      paramType?: string;
+      dispersionType?: string;
+      unitOfMeasure?: string;
+      timeFrame?: string;
+      groups?: ResultGroupRaw[];
+      denoms?: ResultCountsRaw[];
+      classes?: ResultClassRaw[];
+      analyses?: Array<{
+        groupIds?: string[];
+        groupDescription?: string;
+        nonInferiorityType?: string;
+        pValue?: string;
+        statisticalMethod?: string;
+        paramType?: string;
+        paramValue?: string;
+        ciPctValue?: string;
+        ciNumSides?: string;
+        ciLowerLimit?: string;
+        ciUpperLimit?: string;
+        estimateComment?: string;
+      }>;
+    }>;
+  };
+  adverseEventsModule?: {
+    frequencyThreshold?: string;
+    timeFrame?: string;
+    description?: string;
+    eventGroups?: Array<ResultGroupRaw & {
+      deathsNumAffected?: number;
+      deathsNumAtRisk?: number;
+      seriousNumAffected?: number;
+      seriousNumAtRisk?: number;
+      otherNumAffected?: number;
+      otherNumAtRisk?: number;
+    }>;
+    seriousEvents?: AdverseEventRaw[];
+    otherEvents?: AdverseEventRaw[];
+  };
+}
+
+export interface Study {
+  protocolSection: {
+    identificationModule: {
+      nctId: string;
+      briefTitle: string;
+      officialTitle?: string;
+      acronym?: string;
+      orgStudyIdInfo?: {
+        id: string;
+      };
+      organization?: {
+        fullName: string;
+        class?: string;
+      };
+    };
+    statusModule: {
+      overallStatus: string;
+      statusVerifiedDate?: string;
+      whyStopped?: string;
+      startDateStruct?: DateStruct;
+      primaryCompletionDateStruct?: DateStruct;
+      completionDateStruct?: DateStruct;
+      studyFirstPostDateStruct?: DateStruct;
+      resultsFirstPostDateStruct?: DateStruct;
+      lastUpdatePostDateStruct?: DateStruct;
+    };
+    sponsorCollaboratorsModule?: {
+      leadSponsor: {
+        name: string;
+        class: string;
+      };
+      collaborators?: Array<{
+        name: string;
+        class?: string;
+      }>;
+    };
+    oversightModule?: {
+      oversightHasDmc?: boolean;
+      isFdaRegulatedDrug?: boolean;
+      isFdaRegulatedDevice?: boolean;
+      isUnapprovedDevice?: boolean;
+      isUsExport?: boolean;
+    };
+    descriptionModule?: {
+      briefSummary?: string;
+      detailedDescription?: string;
+    };
+    conditionsModule?: {
+      conditions: string[];
+      keywords?: string[];
+    };
+    designModule?: {
+      phases?: string[];
+      studyType: string;
+      designInfo?: {
+        allocation?: string;
+        interventionModel?: string;
+        primaryPurpose?: string;
+        maskingInfo?: {
+          masking?: string;
+          whoMasked?: string[];
+        };
+      };
+      enrollmentInfo?: {
+        count: number;
+        type?: string;
+      };
+    };
+    armsInterventionsModule?: {
+      armGroups?: Array<{
+        label: string;
+        type?: string;
+        description?: string;
+        interventionNames?: string[];
+      }>;
+      interventions?: Array<{
+        type: string;
+        name: string;
+        description?: string;
+        armGroupLabels?: string[];
+        otherNames?: string[];
+      }>;
+    };
+    outcomesModule?: {
+      primaryOutcomes?: StudyOutcome[];
+      secondaryOutcomes?: StudyOutcome[];
+      otherOutcomes?: StudyOutcome[];
+    };
+    contactsLocationsModule?: {
+      centralContacts?: StudyContact[];
+      overallOfficials?: Array<{
+        name?: string;
+        affiliation?: string;
+        role?: string;
+      }>;
+      locations?: StudyLocation[];
+    };
+    eligibilityModule?: {
+      eligibilityCriteria: string;
+      healthyVolunteers: boolean;
+      sex: string;
+      minimumAge?: string;
+      maximumAge?: string;
+      stdAges?: string[];
+    };
+    referencesModule?: {
+      references?: Array<{
+        pmid?: string;
+        type?: string;
+        citation: string;
+      }>;
+      seeAlsoLinks?: Array<{
+        label?: string;
+        url: string;
+      }>;
+    };
+    ipdSharingStatementModule?: {
+      ipdSharing?: string;
+      description?: string;
+      infoTypes?: string[];
+      timeFrame?: string;
+      accessCriteria?: string;
+      url?: string;
+    };
+  };
+  resultsSection?: StudyResultsSection;
+  hasResults?: boolean;
+}
+
+// Normalized results structures returned by get_study_results
+export interface ArmCount {
+  groupId: string;
+  arm: string;
+  count: number | null;
+}
+
+export interface ArmValue {
+  groupId: string;
+  arm: string;
+  value?: string;
+  spread?: string;
+  lowerLimit?: string;
+  upperLimit?: string;
+}
+
+export interface ResultCategory {
+  class?: string;
+  category?: string;
+  values: ArmValue[];
+}
+
+export interface ParticipantFlow {
+  recruitmentDetails?: string;
+  preAssignmentDetails?: string;
+  arms: ResultGroupRaw[];
+  periods: Array<{
+    title: string;
+    milestones: Array<{ type: string; counts: ArmCount[] }>;
+    dropWithdraws: Array<{ type: string; counts: ArmCount[] }>;
+  }>;
+}
+
+export interface BaselineCharacteristics {
+  populationDescription?: string;
+  arms: ResultGroupRaw[];
+  participants: ArmCount[];
+  measures: Array<{
+    title: string;
+    paramType?: string;
+    dispersionType?: string;
+    unitOfMeasure?: string;
+    categories: ResultCategory[];
+  }>;
+}
+
+export interface OutcomeMeasureResult {
+  type: string;
+  title: string;
+  description?: string;
+  timeFrame?: string;
+  populationDescription?: string;
+  reportingStatus?: string;
+  paramType?: string;
+  dispersionType?: string;
+  unitOfMeasure?: string;
+  arms: ResultGroupRaw[];
+  participants: ArmCount[];
+  categories: ResultCategory[];
+  analyses: Array<{
+    arms: string[];
+    description?: string;
+    statisticalMethod?: string;
+    pValue?: string;
+    paramType?: string;
+    paramValue?: string;
+    ciPctValue?: string;
+    ciNumSides?: string;
+    ciLowerLimit?: string;
+    ciUpperLimit?: string;
+    nonInferiorityType?: string;
+    comment?: string;
+  }>;
+}
+
+export interface AdverseEventArmStats {
+  groupId: string;
+  arm: string;
+  numEvents: number | null;
+  numAffected: number | null;
+  numAtRisk: number | null;
+}
+
+export interface AdverseEvent {
+  term: string;
+  organSystem: string;
+  sourceVocabulary?: string;
+  assessmentType?: string;
+  arms: AdverseEventArmStats[];
+}
+
+export interface AdverseEventResults {
+  timeFrame?: string;
+  description?: string;
+  frequencyThreshold?: string;
+  arms: Array<{
+    groupId: string;
+    arm: string;
+    description?: string;
+    deaths: { affected: number | null; atRisk: number | null };
+    serious: { affected: number | null; atRisk: number | null };
+    other: { affected: number | null; atRisk: number | null };
+  }>;
+  seriousEvents: AdverseEvent[];
+  otherEvents: AdverseEvent[];
+}
+
+export interface StudyResults {
+  participantFlow?: ParticipantFlow;
+  baselineCharacteristics?: BaselineCharacteristics;
+  outcomeMeasures?: OutcomeMeasureResult[];
+  adverseEvents?: AdverseEventResults;
+}
+
+// Adverse event comparison structures returned by compare_adverse_events
+export interface AdverseEventArmRate {
+  arm: string;
+  numAffected: number | null;
+  numAtRisk: number | null;
+  rate: number | null;
+  riskDifference: number | null;
+}
+
+export interface AdverseEventComparison {
+  term: string;
+  organSystem: string;
+  category: 'SERIOUS' | 'OTHER';
+  arms: AdverseEventArmRate[];
+}
+
+export interface StudyDetailResponse {
+  studies: Study[];
+}
@@ -0,0 +1,182 @@
+/**
+ * Study watchlist
+ *
+ * Keeps the NCT IDs a user follows together with a snapshot of each record.
+ * Every check compares the current record with the snapshot field by field,
+ * logs what changed and replaces the snapshot. When a file is configured the
+ * watchlist and its change log are saved there so they survive a restart.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { diffRecords, FieldChange, summarizeStudyChanges } from './record-diff.js';
+import { Study } from './types/study.js';
+
+export interface WatchlistOptions {
+  file?: string;
+  maxChanges: number;
+}
+
+export interface WatchedStudy {
+  nctId: string;
+  title: string;
+  watchedSince: string;
+  lastCheckedAt: string;
+  lastChangedAt?: string;
+  snapshot: Study;
+}
+
+export interface WatchlistChange {
+  nctId: string;
+  title: string;
+  detectedAt: string;
+  summary: string[];
+  changes: FieldChange[];
+}
+
+interface WatchlistState {
+  studies: WatchedStudy[];
+  changes: WatchlistChange[];
+}
+
+export class Watchlist {
+  private studies = new Map<string, WatchedStudy>();
+  private changes: WatchlistChange[] = [];
+  private loaded: Promise<void>;
+  // Tail of the queued saves; each waits for the one before it
+  private saved: Promise<void> = Promise.resolve();
+
+  constructor(private options: WatchlistOptions) {
+    this.loaded = this.readFromDisk();
+  }
+
+  async nctIds(): Promise<string[]> {
+    await this.loaded;
+    return [...this.studies.keys()];
+  }
+
+  async list(): Promise<WatchedStudy[]> {
+    await this.loaded;
+    return [...this.studies.values()];
+  }
+
+  /**
+   * Start watching a study. Watching an already watched study keeps its
+   * existing snapshot; resolves to the entry and whether it is new.
+   */
+  async watch(study: Study): Promise<{ entry: WatchedStudy; added: boolean }> {
+    await this.loaded;
+    const { nctId, briefTitle } = study.protocolSection.identificationModule;
+    const existing = this.studies.get(nctId);
+    if (existing) {
+      return { entry: existing, added: false };
+    }
+
+    const now = new Date().toISOString();
+    const entry: WatchedStudy = { nctId, title: briefTitle, watchedSince: now, lastCheckedAt: now, snapshot: study };
+    this.studies.set(nctId, entry);
+    await this.writeToDisk();
+    return { entry, added: true };
+  }
+
+  async unwatch(nctId: string): Promise<boolean> {
+    await this.loaded;
+    const removed = this.studies.delete(nctId);
+    if (removed) {
+      this.changes = this.changes.filter(change => change.nctId !== nctId);
+      await this.writeToDisk();
+    }
+    return removed;
+  }
+
+  /**
+   * Compare the current record of a watched study with its snapshot. Logs and
+   * returns the change when any field differs; undefined otherwise.
+   */
+  async update(study: Study): Promise<WatchlistChange | undefined> {
+    await this.loaded;
+    const entry = this.studies.get(study.protocolSection.identificationModule.nctId);
+    if (!entry) {
+      return undefined;
+    }
+
+    const now = new Date().toISOString();
+    const changes = diffRecords(entry.snapshot, study);
+    let change: WatchlistChange | undefined;
+    if (changes.length > 0) {
+      change = {
+        nctId: entry.nctId,
+        title: study.protocolSection.identificationModule.briefTitle,
+        detectedAt: now,
+        summary: summarizeStudyChanges(entry.snapshot, study),
+        changes
+      };
+      this.changes.push(change);
+      if (this.changes.length > this.options.maxChanges) {
+        this.changes.splice(0, this.changes.length - this.options.maxChanges);
+      }
+      entry.title = change.title;
+      entry.snapshot = study;
+      entry.lastChangedAt = now;
+    }
+    entry.lastCheckedAt = now;
+    await this.writeToDisk();
+    return change;
+  }
+
+  /**
+   * Logged changes, oldest first, optionally for one study and/or detected
+   * after `since` (an ISO timestamp). `clear` drops the returned changes.
+   */
+  async changeLog(filter: { nctId?: string; since?: string; clear?: boolean } = {}): Promise<WatchlistChange[]> {
+    await this.loaded;
+    const selected = this.changes.filter(change =>
+      (!filter.nctId || change.nctId === filter.nctId) && (!filter.since || change.detectedAt > filter.since));
+    if (filter.clear && selected.length > 0) {
+      this.changes = this.changes.filter(change => !selected.includes(change));
+      await this.writeToDisk();
+    }
+    return selected;
+  }
+
+  private async readFromDisk() {
+    if (!this.options.file) {
+      return;
+    }
+
+    try {
+      const state: WatchlistState = JSON.parse(await fs.readFile(this.options.file, 'utf8'));
+      this.studies = new Map(state.studies.map(entry => [entry.nctId, entry]));
+      this.changes = state.changes;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[Watchlist] Failed to read watchlist:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Queue a save. Saves run one at a time and each writes the state as it is
+   * when its turn comes, so the file never ends up with an older snapshot.
+   */
+  private writeToDisk(): Promise<void> {
+    if (!this.options.file) {
+      return Promise.resolve();
+    }
+    this.saved = this.saved.then(() => this.saveState(this.options.file!));
+    return this.saved;
+  }
+
+  private async saveState(file: string) {
+    try {
+      const state: WatchlistState = { studies: [...this.studies.values()], changes: this.changes };
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Replace the file in one step so a crash mid-write cannot truncate it
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(state));
+      await fs.rename(temp, file);
+    } catch (error) {
+      console.error('[Watchlist] Failed to save watchlist:', error instanceof Error ? error.message : error);
+    }
+  }
+}
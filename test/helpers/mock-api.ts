@@ -0,0 +1,107 @@
+/**
+ * Local stand-in for the ClinicalTrials.gov /studies endpoint
+ *
+ * Answers requests from the synthetic records in fixtures/studies using the
+ * same matching rules as the offline fixture source, serves their record
+ * history on the registry's /api/int history routes, and records the query
+ * parameters of every request so tests can assert what each tool sent.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { FixtureStudySource } from '../../src/study-source.js';
+import { Study } from '../../src/types/study.js';
+
+export const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../fixtures/studies');
+
+export interface RecordedRequest {
+  path: string;
+  params: Record<string, string>;
+}
+
+export interface MockApi {
+  url: string;
+  requests: RecordedRequest[];
+  /** Respond to the next requests with this status instead of fixture data */
+  failNext(status: number, times?: number, headers?: Record<string, string>): void;
+  /** Serve this record in place of the fixture with the same NCT ID until reset */
+  replaceStudy(study: Study): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export async function startMockApi(): Promise<MockApi> {
+  const source = new FixtureStudySource(FIXTURES_DIR);
+  const requests: RecordedRequest[] = [];
+  const failures: Array<{ status: number; headers: Record<string, string> }> = [];
+  const replacements = new Map<string, Study>();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const params = Object.fromEntries(url.searchParams.entries());
+    requests.push({ path: url.pathname, params });
+
+    const failure = failures.shift();
+    if (failure) {
+      res.writeHead(failure.status, { 'Content-Type': 'application/json', ...failure.headers });
+      res.end(JSON.stringify({ message: `Mock failure ${failure.status}` }));
+      return;
+    }
+
+    const history = url.pathname.match(/\/api\/int\/studies\/(NCT\d{8})\/history(?:\/(\d+))?$/);
+    if (history) {
+      const [, nctId, version] = history;
+      const body = version === undefined
+        ? await source.getStudyHistory(nctId).then(changes => changes && { changes })
+        : await source.getStudyVersion(nctId, Number(version)).then(study => study && { study });
+      res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body || { message: 'Not found' }));
+      return;
+    }
+
+    if (!url.pathname.endsWith('/studies')) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ message: 'Not found' }));
+      return;
+    }
+
+    const response = await source.searchStudies(params);
+    response.studies = response.studies?.map(study =>
+      replacements.get(study.protocolSection.identificationModule.nctId) || study);
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/api/v2`,
+    requests,
+    failNext(status: number, times = 1, headers: Record<string, string> = {}) {
+      for (let i = 0; i < times; i++) {
+        failures.push({ status, headers });
+      }
+    },
+    replaceStudy(study: Study) {
+      replacements.set(study.protocolSection.identificationModule.nctId, study);
+    },
+    reset() {
+      requests.length = 0;
+      failures.length = 0;
+      replacements.clear();
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+/**
+ * Parse the JSON payload of a tool result's first text block.
+ */
+export function parseToolResult(result: { content: Array<{ type: string; text: string }> }) {
+  return JSON.parse(result.content[0].text);
+}
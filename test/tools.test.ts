@@ -0,0 +1,1039 @@
+import axios from 'axios';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResponseCache } from '../src/cache.js';
+import { attachResilience, CIRCUIT_OPEN_CODE, retryAttempts, validateResilienceOptions } from '../src/resilience.js';
+import { Watchlist } from '../src/watchlist.js';
+import { FIXTURES_DIR, parseToolResult, startMockApi } from './helpers/mock-api.js';
+
+const api = await startMockApi();
+process.env.API_BASE_URL = api.url;
+const { ClinicalTrialsServer } = await import('../src/index.js');
+const server = new ClinicalTrialsServer();
+
+function lastParams() {
+  return api.requests[api.requests.length - 1].params;
+}
+
+beforeEach(() => api.reset());
+afterAll(() => api.close());
+
+describe('query parameters sent by each tool', () => {
+  it('search_studies maps every filter', async () => {
+    await server.handleSearchStudies({
+      query: 'insulin',
+      condition: 'diabetes',
+      intervention: 'Drug A',
+      location: 'Denver',
+      phase: 'PHASE3',
+      status: 'COMPLETED',
+      sex: 'ALL',
+      age: 'ADULT',
+      pageSize: 5
+    });
+
+    expect(api.requests[0].path).toBe('/api/v2/studies');
+    expect(lastParams()).toEqual({
+      format: 'json',
+      pageSize: '5',
+      'query.term': 'insulin',
+      'query.cond': 'diabetes',
+      'query.intr': 'Drug A',
+      'query.locn': 'Denver',
+      'filter.phase': 'PHASE3',
+      'filter.overallStatus': 'COMPLETED',
+      'filter.sex': 'ALL',
+      'filter.stdAge': 'ADULT'
+    });
+  });
+
+  it('get_study_details looks the study up by NCT ID', async () => {
+    await server.handleGetStudyDetails({ nctId: 'NCT99990001' });
+    expect(lastParams()).toEqual({ format: 'json', 'filter.ids': 'NCT99990001', pageSize: '1' });
+  });
+
+  it('search_by_location joins location parts into query.locn', async () => {
+    await server.handleSearchByLocation({ country: 'United States', state: 'Colorado', city: 'Denver' });
+    expect(lastParams()).toMatchObject({ 'query.locn': 'United States, Colorado, Denver' });
+    expect(lastParams()).not.toHaveProperty('filter.geo');
+  });
+
+  it('search_by_location turns a city and distance into a filter.geo radius', async () => {
+    await server.handleSearchByLocation({ state: 'Colorado', city: 'Denver', distance: 50, facilityName: 'Cancer Center' });
+    const params = lastParams();
+    expect(params['filter.geo']).toMatch(/^distance\(39\.7\d*,-104\.9\d*,50mi\)$/);
+    expect(params['query.locn']).toBe('Cancer Center');
+    expect(params).not.toHaveProperty('filter.distance');
+  });
+
+  it('search_by_location accepts coordinates, a ZIP code and kilometres', async () => {
+    await server.handleSearchByLocation({ latitude: 42.36, longitude: -71.06, distance: 25, distanceUnit: 'km' });
+    expect(lastParams()['filter.geo']).toBe('distance(42.36,-71.06,25km)');
+
+    await server.handleSearchByLocation({ zip: '80202' });
+    expect(lastParams()['filter.geo']).toMatch(/^distance\(39\.7\d*,-104\.9\d*,50mi\)$/);
+  });
+
+  it('search_by_location rejects a radius that is not above 0', async () => {
+    for (const distance of [0, -10, NaN, '25']) {
+      await expect(server.handleSearchByLocation({ zip: '80202', distance })).rejects.toThrow(/distance must be a number greater than 0/);
+    }
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it('search_by_location rejects coordinates off the globe', async () => {
+    await expect(server.handleSearchByLocation({ latitude: 91, longitude: 0 })).rejects.toThrow('latitude must be a number from -90 to 90, got: 91');
+    await expect(server.handleSearchByLocation({ latitude: 42.36, longitude: -180.5 })).rejects.toThrow(/longitude must be a number from -180 to 180/);
+    for (const latitude of [NaN, Infinity, '42.36']) {
+      await expect(server.handleSearchByLocation({ latitude, longitude: -71.06 })).rejects.toThrow(/latitude must be a number/);
+    }
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it('search_by_condition sends condition, phase and status', async () => {
+    await server.handleSearchByCondition({ condition: 'diabetes', phase: 'PHASE3', recruitmentStatus: 'RECRUITING' });
+    expect(lastParams()).toMatchObject({
+      'query.cond': 'diabetes',
+      'filter.phase': 'PHASE3',
+      'filter.overallStatus': 'RECRUITING'
+    });
+  });
+
+  it('search_by_condition expands synonyms on request and reports the expansion', async () => {
+    const result = parseToolResult(await server.handleSearchByCondition({ condition: 'Heart attack', expandSynonyms: true }));
+    expect(lastParams()['query.cond']).toBe('"Heart attack" OR "Myocardial Infarction" OR "acute myocardial infarction" OR "STEMI" OR "NSTEMI"');
+    expect(result.searchCriteria.conditionExpansion).toMatchObject({
+      concept: 'Myocardial Infarction',
+      category: 'Cardiovascular Diseases',
+      narrowerTerms: []
+    });
+
+    await server.handleSearchByCondition({ condition: 'diabetes', expandSynonyms: true, includeNarrower: true });
+    expect(lastParams()['query.cond']).toBe('"diabetes" OR "Diabetes Mellitus" OR "Diabetes Mellitus, Type 2" OR "Diabetes Mellitus, Type 1"');
+
+    await server.handleSearchByCondition({ condition: 'diabetes', includeNarrower: true });
+    expect(lastParams()['query.cond']).toBe('"diabetes" OR "Diabetes Mellitus, Type 2" OR "Diabetes Mellitus, Type 1"');
+  });
+
+  it('get_trial_statistics applies its filters', async () => {
+    await server.handleGetTrialStatistics({ groupBy: 'phase', filters: { condition: 'cancer', status: 'RECRUITING' } });
+    expect(lastParams()).toMatchObject({
+      'query.cond': 'cancer',
+      'filter.overallStatus': 'RECRUITING'
+    });
+  });
+
+  it('search_by_sponsor sends sponsor name and class', async () => {
+    await server.handleSearchBySponsor({ sponsor: 'Example Pharma', sponsorType: 'INDUSTRY' });
+    expect(lastParams()).toMatchObject({
+      'query.spons': 'Example Pharma',
+      'filter.leadSponsorClass': 'INDUSTRY'
+    });
+  });
+
+  it('search_by_sponsor can expand a parent company to its aliases', async () => {
+    const result = parseToolResult(await server.handleSearchBySponsor({ sponsor: 'Pfizer Inc.', includeAliases: true }));
+    expect(lastParams()['query.spons']).toMatch(/^"Pfizer" OR "Wyeth" OR .*"Hospira"/);
+    expect(result.searchCriteria).toMatchObject({ normalizedSponsor: 'Pfizer' });
+    expect(result.searchCriteria.searchedAliases).toContain('Seagen');
+  });
+
+  it('search_by_intervention sends intervention, type and phase', async () => {
+    await server.handleSearchByIntervention({ intervention: 'Drug B', interventionType: 'DRUG', phase: 'PHASE2' });
+    expect(lastParams()).toMatchObject({
+      'query.intr': 'Drug B',
+      'filter.interventionType': 'DRUG',
+      'filter.phase': 'PHASE2'
+    });
+  });
+
+  it('get_recruiting_studies always filters on RECRUITING', async () => {
+    await server.handleGetRecruitingStudies({ condition: 'breast cancer', location: 'Boston', ageGroup: 'ADULT' });
+    expect(lastParams()).toMatchObject({
+      'filter.overallStatus': 'RECRUITING',
+      'query.cond': 'breast cancer',
+      'query.locn': 'Boston',
+      'filter.stdAge': 'ADULT'
+    });
+  });
+
+  it('search_by_date_range maps start and completion dates', async () => {
+    await server.handleSearchByDateRange({
+      startDateFrom: '2019-01-01',
+      startDateTo: '2020-01-01',
+      completionDateFrom: '2021-01-01',
+      completionDateTo: '2022-01-01'
+    });
+    expect(lastParams()).toMatchObject({
+      'filter.studyStartDateFrom': '2019-01-01',
+      'filter.studyStartDateTo': '2020-01-01',
+      'filter.primaryCompletionDateFrom': '2021-01-01',
+      'filter.primaryCompletionDateTo': '2022-01-01'
+    });
+  });
+
+  it('get_studies_with_results requires completed studies with results', async () => {
+    await server.handleGetStudiesWithResults({ condition: 'diabetes', completedAfter: '2020-01-01' });
+    expect(lastParams()).toMatchObject({
+      'filter.overallStatus': 'COMPLETED',
+      'filter.hasResults': 'true',
+      'query.cond': 'diabetes',
+      'filter.primaryCompletionDateFrom': '2020-01-01'
+    });
+  });
+
+  it('search_rare_diseases sends the disease as condition', async () => {
+    await server.handleSearchRareDiseases({ rareDisease: 'asthma', recruitmentStatus: 'NOT_YET_RECRUITING' });
+    expect(lastParams()).toMatchObject({
+      'query.cond': 'asthma',
+      'filter.overallStatus': 'NOT_YET_RECRUITING'
+    });
+    expect(lastParams()['query.term']).toBeUndefined();
+  });
+
+  it('search_rare_diseases searches catalog diseases under all their names', async () => {
+    const result = parseToolResult(await server.handleSearchRareDiseases({ rareDisease: 'Pompe disease' }));
+    expect(lastParams()['query.cond']).toBe(
+      '"Glycogen storage disease due to acid maltase deficiency" OR "Pompe disease" OR "glycogen storage disease type II" OR "acid maltase deficiency"');
+    expect(result.searchCriteria.catalogMatch).toMatchObject({ orphaCode: 'ORPHA:365', prevalence: '1-9 / 100 000' });
+
+    await server.handleSearchRareDiseases({ rareDisease: 'ORPHA:586' });
+    expect(lastParams()['query.cond']).toBe('"Cystic fibrosis" OR "mucoviscidosis"');
+  });
+
+  it('search_rare_diseases only resolves partial names that match one disease', async () => {
+    await server.handleSearchRareDiseases({ rareDisease: 'Duchenne' });
+    expect(lastParams()['query.cond']).toBe('"Duchenne muscular dystrophy" OR "DMD" OR "Duchenne dystrophy"');
+
+    const result = parseToolResult(await server.handleSearchRareDiseases({ rareDisease: 'hemophilia' }));
+    expect(lastParams()['query.cond']).toBe('hemophilia');
+    expect(result.searchCriteria.catalogMatch).toBeUndefined();
+  });
+
+  it('get_pediatric_studies maps age ranges', async () => {
+    await server.handleGetPediatricStudies({ ageRange: 'ADOLESCENT' });
+    expect(lastParams()).toMatchObject({
+      'filter.stdAge': 'CHILD',
+      'filter.minimumAge': '12 Years',
+      'filter.maximumAge': '18 Years'
+    });
+  });
+
+  it('get_similar_studies searches on the reference study condition', async () => {
+    await server.handleGetSimilarStudies({ nctId: 'NCT99990001', similarityType: 'CONDITION' });
+    expect(api.requests).toHaveLength(2);
+    expect(api.requests[0].params).toMatchObject({ 'filter.ids': 'NCT99990001' });
+    expect(lastParams()).toMatchObject({ 'query.cond': 'Type 2 Diabetes Mellitus' });
+  });
+
+  it('get_similar_studies validates multi-factor weights', async () => {
+    await expect(server.handleGetSimilarStudies({ nctId: 'NCT99990001', similarityType: 'MULTI_FACTOR', weights: { sponsor: 1 } }))
+      .rejects.toThrow(/Unknown similarity factor: sponsor/);
+    await expect(server.handleGetSimilarStudies({ nctId: 'NCT99990001', similarityType: 'MULTI_FACTOR', weights: { phase: -1 } }))
+      .rejects.toThrow(/non-negative/);
+    for (const weights of [null, [1, 2], 'conditions']) {
+      await expect(server.handleGetSimilarStudies({ nctId: 'NCT99990001', similarityType: 'MULTI_FACTOR', weights }))
+        .rejects.toThrow(/weights must be an object/);
+    }
+  });
+
+  it('search_by_primary_outcome sends query.outc', async () => {
+    await server.handleSearchByPrimaryOutcome({ outcome: 'HbA1c', phase: 'PHASE3' });
+    expect(lastParams()).toMatchObject({ 'query.outc': 'HbA1c', 'filter.phase': 'PHASE3' });
+  });
+
+  it('search_by_eligibility_criteria maps age, sex and volunteers', async () => {
+    await server.handleSearchByEligibilityCriteria({
+      minAge: '18 Years',
+      maxAge: '65 Years',
+      sex: 'FEMALE',
+      healthyVolunteers: false,
+      inclusionKeywords: 'ECOG'
+    });
+    expect(lastParams()).toMatchObject({
+      'filter.minimumAge': '18 Years',
+      'filter.maximumAge': '65 Years',
+      'filter.sex': 'FEMALE',
+      'filter.healthyVolunteers': 'false',
+      'query.eligibility': 'ECOG'
+    });
+  });
+
+  it('get_study_timeline maps timeline type to statuses', async () => {
+    await server.handleGetStudyTimeline({ timelineType: 'COMPLETED', sponsor: 'Example Pharma' });
+    expect(lastParams()).toMatchObject({
+      'filter.overallStatus': 'COMPLETED',
+      'query.spons': 'Example Pharma'
+    });
+  });
+
+  it('search_international_studies sends the included country', async () => {
+    await server.handleSearchInternationalStudies({ includeCountry: 'Canada' });
+    expect(lastParams()).toMatchObject({ 'query.locn': 'Canada' });
+  });
+
+  it('forwards pageToken and walks pages for maxResults', async () => {
+    await server.handleSearchStudies({ pageToken: 'abc' });
+    expect(lastParams()).toMatchObject({ pageToken: 'abc' });
+
+    api.reset();
+    const result = parseToolResult(await server.handleSearchStudies({ maxResults: 3 }));
+    expect(result.studies).toHaveLength(3);
+    expect(result.nextPageToken).toBeUndefined();
+    expect(api.requests[0].params).toMatchObject({ pageSize: '3', countTotal: 'true' });
+  });
+});
+
+describe('formatted outputs', () => {
+  it('search_studies returns summaries with counts', async () => {
+    const result = parseToolResult(await server.handleSearchStudies({ condition: 'diabetes' }));
+    expect(result.totalCount).toBe(1);
+    expect(result.resultsShown).toBe(1);
+    expect(result.studies[0]).toEqual({
+      nctId: 'NCT99990001',
+      title: 'Sample Study of Drug A in Type 2 Diabetes',
+      status: 'COMPLETED',
+      phase: ['PHASE3'],
+      studyType: 'INTERVENTIONAL',
+      sponsor: 'Example Pharma Inc.',
+      conditions: ['Type 2 Diabetes Mellitus'],
+      startDate: '2019-03-01'
+    });
+  });
+
+  it('get_study_details returns only the requested sections', async () => {
+    const result = parseToolResult(await server.handleGetStudyDetails({
+      nctId: 'NCT99990002',
+      sections: ['identification', 'contacts']
+    }));
+    expect(Object.keys(result)).toEqual(['identification', 'contacts']);
+    expect(result.contacts.centralContacts[0].email).toBe('coordinator@example.org');
+  });
+
+  it('get_study_details reports unknown studies as errors', async () => {
+    const result = await server.handleGetStudyDetails({ nctId: 'NCT00000000' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('No study found');
+  });
+
+  it('get_study_details rejects malformed NCT IDs', async () => {
+    await expect(server.handleGetStudyDetails({ nctId: 'nct123' })).rejects.toThrow(/Valid NCT ID/);
+  });
+
+  it('get_studies_batch returns studies in input order with missing and malformed IDs', async () => {
+    const result = parseToolResult(await server.handleGetStudiesBatch({
+      nctIds: ['nct99990003', 'NCT99990001', 'NCT00000000', 'bogus', 'NCT99990003'],
+      sections: ['status']
+    }));
+    expect(api.requests).toHaveLength(1);
+    expect(lastParams()['filter.ids']).toBe('NCT99990003,NCT99990001,NCT00000000');
+    expect(result).toMatchObject({ requested: 5, found: 2, notFound: ['NCT00000000'], invalidIds: ['bogus'] });
+    expect(result.studies.map((study: any) => study.nctId)).toEqual(['NCT99990003', 'NCT99990001']);
+    expect(Object.keys(result.studies[0])).toEqual(['nctId', 'status']);
+  });
+
+  it('get_studies_batch fetches large batches in chunks', async () => {
+    const nctIds = Array.from({ length: 150 }, (_, i) => `NCT${String(i + 1).padStart(8, '0')}`);
+    const result = parseToolResult(await server.handleGetStudiesBatch({ nctIds }));
+    expect(api.requests.map(request => request.params['filter.ids'].split(',').length)).toEqual([100, 50]);
+    expect(result.notFound).toHaveLength(150);
+
+    await expect(server.handleGetStudiesBatch({ nctIds: [...nctIds, ...nctIds, ...nctIds, ...nctIds] })).rejects.toThrow(/At most 500/);
+  });
+
+  it('search_international_studies keeps multi-country studies only', async () => {
+    const result = parseToolResult(await server.handleSearchInternationalStudies({ excludeCountry: 'United States' }));
+    expect(result.internationalStudies.map((study: any) => study.nctId)).toEqual(['NCT99990003']);
+    expect(result.internationalStudies[0].internationalDetails.countries).toEqual(['United Kingdom', 'Germany']);
+  });
+
+  it('search_by_location radius search reports the nearest site, nearest first', async () => {
+    const result = parseToolResult(await server.handleSearchByLocation({ latitude: 39.1, longitude: -94.6, distance: 1500 }));
+    expect(result.studies.map((study: any) => study.nctId)).toEqual(['NCT99990001', 'NCT99990002']);
+    expect(result.studies[0].nearestSite).toMatchObject({ city: 'Denver', unit: 'mi' });
+    expect(result.studies[0].nearestSite.distance).toBeLessThan(result.studies[1].nearestSite.distance);
+    expect(result.searchCriteria).toMatchObject({ center: { lat: 39.1, lon: -94.6 }, distance: 1500, distanceUnit: 'mi' });
+  });
+
+  it('search_by_location limits a city radius search to nearby sites', async () => {
+    const result = parseToolResult(await server.handleSearchByLocation({ city: 'Denver', distance: 50 }));
+    expect(result.studies.map((study: any) => study.nctId)).toEqual(['NCT99990001']);
+    expect(result.studies[0].nearestSite.distance).toBeLessThan(5);
+  });
+
+  it('search_by_location reports places missing from the gazetteer', async () => {
+    const result = await server.handleSearchByLocation({ zip: '00000' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Could not resolve postal code 00000');
+  });
+
+  it('get_trial_statistics counts every value of multi-valued fields over all matches', async () => {
+    const result = parseToolResult(await server.handleGetTrialStatistics({ groupBy: 'condition' }));
+    expect(lastParams().fields).toBe('NCTId,Condition');
+    expect(result).toMatchObject({ totalStudies: 3, analyzedStudies: 3, complete: true });
+    expect(result.statistics).toEqual({
+      'Type 2 Diabetes Mellitus': 1,
+      'Breast Cancer': 1,
+      'Metastatic Breast Cancer': 1,
+      'Asthma in Children': 1
+    });
+  });
+
+  it('get_trial_statistics cross-tabulates two fields', async () => {
+    const study = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'NCT99990002.json'), 'utf8'));
+    study.protocolSection.designModule.phases = ['PHASE1', 'PHASE2'];
+    api.replaceStudy(study);
+
+    const result = parseToolResult(await server.handleGetTrialStatistics({ groupBy: 'phase', crossBy: 'status' }));
+    expect(result.statistics).toEqual({
+      PHASE3: { COMPLETED: 1 },
+      PHASE1: { RECRUITING: 1 },
+      PHASE2: { RECRUITING: 1 },
+      PHASE4: { NOT_YET_RECRUITING: 1 }
+    });
+  });
+
+  it('get_trial_statistics counts sponsor spellings and subsidiaries under one name', async () => {
+    for (const [nctId, name] of [['NCT99990001', 'Pfizer, Inc.'], ['NCT99990002', 'Wyeth Pharmaceuticals LLC'], ['NCT99990003', 'PFIZER']]) {
+      const study = JSON.parse(await readFile(path.join(FIXTURES_DIR, `${nctId}.json`), 'utf8'));
+      study.protocolSection.sponsorCollaboratorsModule.leadSponsor = { name, class: 'INDUSTRY' };
+      api.replaceStudy(study);
+    }
+
+    const result = parseToolResult(await server.handleGetTrialStatistics({ groupBy: 'sponsor' }));
+    expect(result.statistics).toEqual({ Pfizer: 3 });
+  });
+
+  it('get_trial_statistics rolls conditions up to their category', async () => {
+    const result = parseToolResult(await server.handleGetTrialStatistics({ groupBy: 'conditionCategory' }));
+    expect(lastParams().fields).toBe('NCTId,Condition');
+    expect(result.statistics).toEqual({
+      'Nutritional and Metabolic Diseases': 1,
+      'Neoplasms': 1,
+      'Respiratory Tract Diseases': 1
+    });
+  });
+
+  it('get_trial_statistics needs groupBy for crossBy', async () => {
+    await expect(server.handleGetTrialStatistics({ crossBy: 'status' })).rejects.toThrow(/crossBy needs a different groupBy/);
+  });
+
+  it('get_trial_trends buckets studies by year with year-over-year change', async () => {
+    const result = parseToolResult(await server.handleGetTrialTrends({ dateField: 'firstPostedYear', fromYear: 2023 }));
+    expect(lastParams().fields).toBe('NCTId,StudyFirstPostDate');
+    expect(result).toMatchObject({ analyzedStudies: 3, undatedStudies: 0, outOfRangeStudies: 1 });
+    expect(result.series).toEqual([
+      { year: 2023, count: 0, change: null, changePercent: null },
+      { year: 2024, count: 1, change: 1, changePercent: null },
+      { year: 2025, count: 1, change: 0, changePercent: 0 }
+    ]);
+  });
+
+  it('get_trial_trends splits each year by sponsor class', async () => {
+    const result = parseToolResult(await server.handleGetTrialTrends({ splitBy: 'sponsorClass', toYear: 2024 }));
+    expect(result.series.map((point: any) => point.year)).toEqual([2019, 2020, 2021, 2022, 2023, 2024]);
+    expect(Object.keys(result.splits)).toEqual(['INDUSTRY', 'OTHER']);
+    expect(result.splits.OTHER.at(-1)).toEqual({ year: 2024, count: 1, change: 1, changePercent: null });
+    expect(result.splits.INDUSTRY[0]).toEqual({ year: 2019, count: 1, change: null, changePercent: null });
+  });
+
+  it('get_competitive_landscape builds sponsor × intervention rows without comparators', async () => {
+    const result = parseToolResult(await server.handleGetCompetitiveLandscape({ condition: 'diabetes' }));
+    expect(lastParams()['query.cond']).toBe('diabetes');
+    expect(result).toMatchObject({ totalStudies: 1, analyzedStudies: 1, complete: true, rowCount: 1 });
+    expect(result.rows).toEqual([{
+      sponsor: 'Example Pharma',
+      sponsorClass: 'INDUSTRY',
+      intervention: 'Drug A',
+      interventionType: 'DRUG',
+      highestPhase: 'PHASE3',
+      activeTrials: 0,
+      completedTrials: 1,
+      totalTrials: 1,
+      latestStartDate: '2019-03-01',
+      leadNctIds: ['NCT99990001']
+    }]);
+
+    const withComparators = parseToolResult(await server.handleGetCompetitiveLandscape({ condition: 'diabetes', includeComparators: true }));
+    expect(withComparators.rows.map((row: any) => row.intervention)).toEqual(['Drug A', 'Placebo']);
+  });
+
+  it('get_competitive_landscape can render a Markdown table', async () => {
+    const result = await server.handleGetCompetitiveLandscape({ condition: 'diabetes', format: 'markdown', limit: 1 });
+    const data = parseToolResult(result);
+    expect(data.rowsShown).toBe(1);
+    expect(result.content[1].text).toBe(data.markdown);
+    expect(data.markdown.split('\n')[0]).toBe('| Sponsor | Intervention | Highest phase | Active | Completed | Total | Latest start | Lead trials |');
+  });
+
+  it('get_similar_studies ranks candidates by a weighted multi-factor score', async () => {
+    // A reference sharing a condition, intervention, phase and design with NCT99990002
+    const reference = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'NCT99990001.json'), 'utf8'));
+    reference.protocolSection.conditionsModule = { conditions: ['Metastatic Breast Cancer', 'Asthma'] };
+    reference.protocolSection.armsInterventionsModule.interventions = [{ type: 'DRUG', name: 'Drug B' }, { type: 'DRUG', name: 'Placebo' }];
+    reference.protocolSection.designModule.phases = ['PHASE2'];
+    reference.protocolSection.designModule.designInfo = { allocation: 'NA', interventionModel: 'SINGLE_GROUP', primaryPurpose: 'TREATMENT', maskingInfo: { masking: 'NONE' } };
+    reference.protocolSection.eligibilityModule.maximumAge = undefined;
+    api.replaceStudy(reference);
+
+    const result = parseToolResult(await server.handleGetSimilarStudies({ nctId: 'NCT99990001', similarityType: 'MULTI_FACTOR' }));
+    expect(api.requests.map(request => request.params['query.cond'] || request.params['query.intr'])).toContain('"Drug B"');
+    expect(result.weights).toEqual({ conditions: 3, interventions: 2, phase: 1, design: 1, ageRange: 1 });
+    expect(result.similarStudies.map((study: any) => study.nctId)).toEqual(['NCT99990002', 'NCT99990003']);
+
+    const [best, other] = result.similarStudies;
+    expect(best.similarityFactors.conditions).toMatchObject({ similarity: 0.333, shared: ['Metastatic Breast Cancer'] });
+    expect(best.similarityFactors.interventions).toMatchObject({ similarity: 1, shared: ['Drug B'] });
+    expect(best.similarityFactors.design.similarity).toBe(1);
+    expect(best.similarityScore).toBe(0.75);
+    expect(other.similarityScore).toBeLessThan(best.similarityScore);
+
+    const byDesign = parseToolResult(await server.handleGetSimilarStudies({
+      nctId: 'NCT99990001', similarityType: 'MULTI_FACTOR', weights: { conditions: 0, interventions: 0, phase: 0, ageRange: 0 }
+    }));
+    expect(byDesign.weights).toEqual({ design: 1 });
+    expect(byDesign.similarStudies[0]).toMatchObject({ nctId: 'NCT99990002', similarityScore: 1 });
+  });
+
+  it('get_similar_studies gathers multi-factor candidates on keywords too', async () => {
+    const reference = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'NCT99990001.json'), 'utf8'));
+    reference.protocolSection.conditionsModule = { keywords: ['HER2', 'Metastatic'] };
+    reference.protocolSection.armsInterventionsModule = { interventions: [] };
+    api.replaceStudy(reference);
+
+    await server.handleGetSimilarStudies({ nctId: 'NCT99990001', similarityType: 'MULTI_FACTOR' });
+    expect(api.requests.slice(1).map(request => request.params['query.term'])).toEqual(['"HER2" OR "Metastatic"']);
+
+    reference.protocolSection.conditionsModule = {};
+    api.replaceStudy(reference);
+    const result = parseToolResult(await server.handleGetSimilarStudies({ nctId: 'NCT99990001', similarityType: 'MULTI_FACTOR' }));
+    expect(result).toMatchObject({ totalCount: 0, similarStudies: [] });
+    expect(result.message).toBe('NCT99990001 lists no conditions, interventions or keywords to gather candidate studies on');
+  });
+
+  it('search_rare_diseases annotates results with their catalog diseases', async () => {
+    const study = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'NCT99990003.json'), 'utf8'));
+    study.protocolSection.conditionsModule.conditions = ['Asthma in Children', 'Cystic Fibrosis'];
+    api.replaceStudy(study);
+
+    const result = parseToolResult(await server.handleSearchRareDiseases({ rareDisease: 'asthma' }));
+    expect(result.searchCriteria.catalogMatch).toBeUndefined();
+    expect(result.studies[0].rareDiseases).toEqual([{ name: 'Cystic fibrosis', orphaCode: 'ORPHA:586', prevalence: '1-9 / 100 000' }]);
+  });
+
+  it('list_rare_diseases_with_trials counts trials per catalog disease', async () => {
+    const result = parseToolResult(await server.handleListRareDiseasesWithTrials({ group: 'respiratory', includeEmpty: true }));
+    expect(lastParams()).toMatchObject({ 'fields': 'NCTId', 'pageSize': '1', 'query.cond': '"Idiopathic pulmonary fibrosis" OR "IPF" OR "cryptogenic fibrosing alveolitis"' });
+    expect(result).toMatchObject({ diseasesChecked: 2, diseasesWithTrials: 0 });
+    expect(result.diseases.map((disease: any) => [disease.orphaCode, disease.trialCount])).toEqual([['ORPHA:586', 0], ['ORPHA:2032', 0]]);
+
+    const rarest = parseToolResult(await server.handleListRareDiseasesWithTrials({ maxPrevalence: '1-9 / 1 000 000' }));
+    expect(rarest).toMatchObject({ diseasesChecked: 2, diseases: [] });
+  });
+
+  it('compare_adverse_events computes rates and risk differences', async () => {
+    const result = parseToolResult(await server.handleCompareAdverseEvents({ nctIds: ['NCT99990001'], eventType: 'OTHER' }));
+    const nausea = result.studies[0].events[0];
+    expect(result.studies[0].referenceArm).toBe('Placebo');
+    expect(nausea.term).toBe('Nausea');
+    expect(nausea.arms[0]).toMatchObject({ arm: 'Drug A', rate: 0.12, riskDifference: 0.07 });
+  });
+
+  it('surfaces API errors after retries run out', async () => {
+    api.failNext(503, 10);
+    const result = await server.handleSearchStudies({ condition: 'diabetes' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Clinical Trials API error: Mock failure 503 (gave up after 3 of 3 retries)');
+  });
+
+  it('rejects rate limits the token bucket could never satisfy', () => {
+    const options = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 10000, requestsPerSecond: 5, burst: 5, failureThreshold: 5, resetTimeoutMs: 30000 };
+    expect(() => validateResilienceOptions(options)).not.toThrow();
+    expect(() => validateResilienceOptions({ ...options, requestsPerSecond: 0 })).not.toThrow();
+    for (const burst of [0, 0.5, NaN]) {
+      expect(() => validateResilienceOptions({ ...options, burst })).toThrow(/API_RATE_LIMIT_BURST/);
+    }
+    expect(() => validateResilienceOptions({ ...options, requestsPerSecond: NaN })).toThrow(/API_RATE_LIMIT_RPS/);
+  });
+});
+
+describe('API resilience', () => {
+  const options = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, requestsPerSecond: 0, burst: 1, failureThreshold: 2, resetTimeoutMs: 100 };
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  function client(overrides: Partial<typeof options> = {}) {
+    const instance = axios.create({ baseURL: api.url });
+    return { search: () => instance.get('/studies', { params: { 'query.cond': 'diabetes' } }), ...attachResilience(instance, { ...options, ...overrides }) };
+  }
+
+  async function openCircuit() {
+    const resilient = client({ maxRetries: 0 });
+    api.failNext(503, 2);
+    await expect(resilient.search()).rejects.toThrow(/status code 503/);
+    await expect(resilient.search()).rejects.toThrow(/status code 503/);
+    return resilient;
+  }
+
+  it('waits as long as Retry-After asks before retrying', async () => {
+    const { search } = client();
+    api.failNext(503, 1, { 'Retry-After': '0.3' });
+    const started = Date.now();
+    expect((await search()).status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(290);
+    expect(api.requests).toHaveLength(2);
+  });
+
+  it('counts the retries made before giving up', async () => {
+    const { search } = client();
+    api.failNext(503, 5);
+    const error = await search().catch(error => error);
+    expect(retryAttempts(error)).toBe(2);
+    expect(api.requests).toHaveLength(3);
+  });
+
+  it('opens the circuit after repeated failures and fails fast', async () => {
+    const { search, breaker } = await openCircuit();
+    expect(breaker.state).toBe('open');
+    await expect(search()).rejects.toMatchObject({ code: CIRCUIT_OPEN_CODE });
+    expect(api.requests).toHaveLength(2);
+  });
+
+  it('closes the circuit when the probe after the cool-down succeeds', async () => {
+    const { search, breaker } = await openCircuit();
+    await sleep(120);
+    const responses = await Promise.all([search(), search(), search()]);
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(breaker.state).toBe('closed');
+    expect(api.requests).toHaveLength(5);
+  });
+
+  it('lets only one probe through and re-opens when it fails', async () => {
+    const { search, breaker } = await openCircuit();
+    await sleep(120);
+    api.failNext(503);
+    const results = await Promise.allSettled([search(), search(), search()]);
+    expect(results.map(result => result.status === 'rejected' && result.reason.code)).toEqual(['ERR_BAD_RESPONSE', CIRCUIT_OPEN_CODE, CIRCUIT_OPEN_CODE]);
+    expect(api.requests).toHaveLength(3);
+    expect(breaker.state).toBe('open');
+  });
+});
+
+describe('response cache', () => {
+  const search = { condition: 'diabetes', status: 'COMPLETED' };
+  let cachingServer: InstanceType<typeof ClinicalTrialsServer>;
+
+  beforeAll(async () => {
+    // The test environment turns caching off, so load a server that has it on
+    vi.stubEnv('CACHE_SEARCH_TTL_SECONDS', '300');
+    vi.resetModules();
+    const { ClinicalTrialsServer: CachingServer } = await import('../src/index.js');
+    vi.unstubAllEnvs();
+    cachingServer = new CachingServer();
+  });
+
+  beforeEach(() => cachingServer.handleGetCacheStats({ clear: true }));
+  afterEach(() => vi.useRealTimers());
+
+  it('serves repeated identical calls from the cache and misses on different params', async () => {
+    const before = cachingServer.getCacheStats();
+    await cachingServer.handleSearchStudies(search);
+    await cachingServer.handleSearchStudies(search);
+    expect(api.requests).toHaveLength(1);
+    expect(cachingServer.getCacheStats()).toMatchObject({ hits: before.hits + 1, misses: before.misses + 1 });
+
+    await cachingServer.handleSearchStudies({ ...search, status: 'RECRUITING' });
+    expect(api.requests).toHaveLength(2);
+    expect(cachingServer.getCacheStats()).toMatchObject({ hits: before.hits + 1, misses: before.misses + 2 });
+  });
+
+  it('skips the cache for calls with noCache set', async () => {
+    await cachingServer.handleSearchStudies(search);
+    const before = cachingServer.getCacheStats();
+    await cachingServer.handleSearchStudies({ ...search, noCache: true });
+    expect(api.requests).toHaveLength(2);
+    expect(cachingServer.getCacheStats()).toMatchObject({ hits: before.hits, misses: before.misses });
+  });
+
+  it('expires study and search entries after their own TTLs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new ResponseCache({ maxEntries: 10, ttlMs: { study: 60_000, search: 1_000 } });
+    await cache.set('study', 'record', 'study');
+    await cache.set('search', 'page', 'search');
+
+    vi.advanceTimersByTime(1_001);
+    expect(await cache.get('search')).toBeUndefined();
+    expect(await cache.get('study')).toBe('record');
+
+    vi.advanceTimersByTime(60_000);
+    expect(await cache.get('study')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 2, entries: 0 });
+  });
+
+  it('evicts the least recently used entry at capacity', async () => {
+    const cache = new ResponseCache({ maxEntries: 2, ttlMs: { study: 60_000, search: 60_000 } });
+    await cache.set('a', 1, 'search');
+    await cache.set('b', 2, 'search');
+    await cache.get('a');
+    await cache.set('c', 3, 'search');
+
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.get('c')).toBe(3);
+    expect(cache.stats()).toMatchObject({ entries: 2, evictions: 1 });
+  });
+
+  it('reads entries written to disk by an earlier instance', async () => {
+    const diskDir = await mkdtemp(path.join(tmpdir(), 'cache-'));
+    const options = { maxEntries: 10, ttlMs: { study: 60_000, search: 60_000 }, diskDir };
+    await new ResponseCache(options).set('study', { nctId: 'NCT99990001' }, 'study');
+
+    const restarted = new ResponseCache(options);
+    expect(await restarted.get('study')).toEqual({ nctId: 'NCT99990001' });
+    expect(restarted.stats()).toMatchObject({ hits: 1, diskHits: 1, entries: 1 });
+    await rm(diskDir, { recursive: true });
+  });
+});
+
+describe('study exports', () => {
+  it('export_studies walks every page and writes CSV with the default columns', async () => {
+    const result = parseToolResult(await server.handleExportStudies({}));
+    const lines = result.data.trimEnd().split('\r\n');
+
+    expect(result).toMatchObject({ format: 'csv', rowCount: 3, totalCount: 3, truncated: false, encoding: 'utf8' });
+    expect(lines[0]).toBe('nctId,title,status,phase,studyType,sponsor,conditions,startDate,status.primaryCompletionDate,design.enrollment.count');
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toMatch(/^NCT99990001,Sample Study of Drug A in Type 2 Diabetes,COMPLETED,PHASE3,/);
+    expect(api.requests[0].params).toMatchObject({ pageSize: '100', countTotal: 'true' });
+  });
+
+  it('export_studies resolves detail paths through arrays in NDJSON', async () => {
+    const result = parseToolResult(await server.handleExportStudies({
+      condition: 'diabetes',
+      format: 'ndjson',
+      columns: ['nctId', 'armsInterventions.interventions.name', 'locations.city']
+    }));
+    expect(lastParams()).toMatchObject({ 'query.cond': 'diabetes' });
+    expect(JSON.parse(result.data.trim())).toEqual({
+      nctId: 'NCT99990001',
+      'armsInterventions.interventions.name': ['Drug A', 'Placebo'],
+      'locations.city': ['Denver', 'Toronto']
+    });
+  });
+
+  it('export_studies stops at maxRows and reports truncation', async () => {
+    const result = parseToolResult(await server.handleExportStudies({ format: 'markdown', columns: ['nctId', 'phase'], maxRows: 2 }));
+    expect(result.data.split('\n').slice(0, 3)).toEqual(['| nctId | phase |', '| --- | --- |', '| NCT99990001 | PHASE3 |']);
+    expect(result).toMatchObject({ rowCount: 2, totalCount: 3, truncated: true });
+  });
+
+  it('export_studies builds an Excel workbook', async () => {
+    const { default: ExcelJS } = await import('exceljs');
+    const result = parseToolResult(await server.handleExportStudies({ format: 'xlsx', columns: ['nctId', 'sponsor'] }));
+    expect(result.encoding).toBe('base64');
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(Buffer.from(result.data, 'base64') as any);
+    const sheet = workbook.getWorksheet('Studies')!;
+    expect(sheet.getRow(1).values).toEqual([undefined, 'nctId', 'sponsor']);
+    expect(sheet.getRow(2).values).toEqual([undefined, 'NCT99990001', 'Example Pharma Inc.']);
+    expect(sheet.rowCount).toBe(4);
+  });
+
+  it('export_studies rejects unknown formats and columns', async () => {
+    await expect(server.handleExportStudies({ format: 'pdf' })).rejects.toThrow(/Unknown export format/);
+    await expect(server.handleExportStudies({ columns: ['nctId', 'enrollment', 'protocol.x'] })).rejects.toThrow(/Unknown columns: enrollment, protocol.x/);
+  });
+});
+
+describe('patient matching', () => {
+  const patient = {
+    age: 54,
+    sex: 'FEMALE',
+    diagnoses: ['metastatic breast cancer'],
+    priorTherapies: ['paclitaxel'],
+    labValues: { ANC: { value: 1800, unit: '/µL' } },
+    ecog: 1,
+    pregnant: false,
+    breastfeeding: false
+  };
+
+  it('match_patient_to_trials searches recruiting trials for the diagnoses', async () => {
+    await server.handleMatchPatientToTrials({ patient: { ...patient, diagnoses: ['breast cancer', 'asthma'], location: 'Boston' } });
+    expect(lastParams()).toMatchObject({
+      'query.cond': 'breast cancer OR asthma',
+      'query.locn': 'Boston',
+      'filter.overallStatus': 'RECRUITING',
+      'filter.sex': 'FEMALE',
+      pageSize: '50'
+    });
+  });
+
+  it('match_patient_to_trials explains met and cleared criteria', async () => {
+    const result = parseToolResult(await server.handleMatchPatientToTrials({ patient }));
+    const match = result.matches[0];
+
+    expect(result).toMatchObject({ candidatesEvaluated: 1, eligibleCount: 1, resultsShown: 1 });
+    expect(match).toMatchObject({ nctId: 'NCT99990002', eligible: true, score: 100, unmetInclusion: [], exclusionsHit: [], notEvaluated: [] });
+    expect(match.metInclusion.map((item: any) => item.criterion)).toEqual([
+      'Sex: FEMALE',
+      'Age: 18 Years to no maximum',
+      'Histologically confirmed metastatic breast cancer',
+      'ECOG performance status 0-1',
+      'ANC ≥ 1500/µL'
+    ]);
+    expect(match.exclusionsCleared.map((item: any) => item.criterion)).toEqual(['Prior treatment with Drug B', 'Pregnant or breastfeeding']);
+  });
+
+  it('match_patient_to_trials ranks ineligible trials only on request', async () => {
+    const ineligible = { ...patient, labValues: { ANC: { value: 1200, unit: '/uL' } }, priorTherapies: ['Drug B'] };
+    expect(parseToolResult(await server.handleMatchPatientToTrials({ patient: ineligible })).matches).toEqual([]);
+
+    const [match] = parseToolResult(await server.handleMatchPatientToTrials({ patient: ineligible, includeIneligible: true })).matches;
+    expect(match.eligible).toBe(false);
+    expect(match.unmetInclusion).toEqual([{ criterion: 'ANC ≥ 1500/µL', reason: 'ANC 1200 ≥ 1500' }]);
+    expect(match.exclusionsHit).toEqual([{ criterion: 'Prior treatment with Drug B', reason: 'patient received Drug B' }]);
+  });
+
+  it('match_patient_to_trials reports criteria it cannot evaluate', async () => {
+    const [match] = parseToolResult(await server.handleMatchPatientToTrials({ patient: { diagnoses: ['breast cancer'] } })).matches;
+    expect(match.notEvaluated.map((item: any) => [item.type, item.reason])).toEqual([
+      ['inclusion', 'patient sex not given'],
+      ['inclusion', 'patient age not given'],
+      ['inclusion', 'patient ECOG performance status not given'],
+      ['inclusion', 'no matching lab value in patient profile'],
+      ['exclusion', 'prior therapies not given'],
+      ['exclusion', 'pregnancy status not given']
+    ]);
+    expect(match.metInclusion).toEqual([{ criterion: 'Histologically confirmed metastatic breast cancer', reason: 'patient diagnosis: breast cancer' }]);
+    expect(match.score).toBe(57);
+  });
+
+  it('match_patient_to_trials does not apply exclusions that only name the diagnosis', async () => {
+    const study = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'NCT99990002.json'), 'utf8'));
+    study.protocolSection.eligibilityModule.eligibilityCriteria += '\n* Patients whose breast cancer is HER2-negative';
+    api.replaceStudy(study);
+
+    const [match] = parseToolResult(await server.handleMatchPatientToTrials({ patient })).matches;
+    expect(match).toMatchObject({ eligible: true, exclusionsHit: [] });
+    expect(match.notEvaluated).toEqual([
+      { type: 'exclusion', criterion: 'Patients whose breast cancer is HER2-negative', reason: 'criterion not recognised' }
+    ]);
+  });
+
+  it('match_patient_to_trials compares lab thresholds only in their own units', async () => {
+    const study = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'NCT99990002.json'), 'utf8'));
+    study.protocolSection.eligibilityModule.eligibilityCriteria =
+      study.protocolSection.eligibilityModule.eligibilityCriteria.replace('* ANC ≥ 1500/µL', '* ANC ≥ 1500/µL\n* AST and ALT ≤ 2.5 x ULN');
+    api.replaceStudy(study);
+
+    const normal = { ...patient, labValues: { ...patient.labValues, AST: 30, ALT: 25 } };
+    const [unknown] = parseToolResult(await server.handleMatchPatientToTrials({ patient: normal })).matches;
+    expect(unknown).toMatchObject({ eligible: true, unmetInclusion: [] });
+    expect(unknown.notEvaluated).toEqual([{
+      type: 'inclusion',
+      criterion: 'AST and ALT ≤ 2.5 x ULN',
+      reason: 'AST threshold is relative to the upper limit of normal; give the value with unit "x ULN"'
+    }]);
+
+    const multiples = { ...patient, labValues: { ...patient.labValues, AST: { value: 0.8, unit: 'x ULN' }, ALT: { value: 0.6, unit: 'x ULN' } } };
+    const [met] = parseToolResult(await server.handleMatchPatientToTrials({ patient: multiples })).matches;
+    expect(met.metInclusion).toContainEqual({ criterion: 'AST and ALT ≤ 2.5 x ULN', reason: 'AST 0.8 ≤ 2.5; ALT 0.6 ≤ 2.5' });
+
+    const wrongUnit = { ...patient, labValues: { ANC: { value: 1.8, unit: '10^9/L' } } };
+    const [mismatch] = parseToolResult(await server.handleMatchPatientToTrials({ patient: wrongUnit })).matches;
+    expect(mismatch.notEvaluated).toContainEqual({ type: 'inclusion', criterion: 'ANC ≥ 1500/µL', reason: "patient's ANC is in 10^9/L, criterion uses /µL" });
+  });
+
+  it('match_patient_to_trials requires at least one diagnosis', async () => {
+    await expect(server.handleMatchPatientToTrials({ patient: { age: 40 } })).rejects.toThrow(/patient.diagnoses/);
+  });
+});
+
+describe('eligibility parsing', () => {
+  it('parse_eligibility splits a study\'s criteria and extracts structured items', async () => {
+    const result = parseToolResult(await server.handleParseEligibility({ nctId: 'NCT99990002' }));
+    expect(lastParams()).toMatchObject({ 'filter.ids': 'NCT99990002' });
+    expect(result).toMatchObject({ nctId: 'NCT99990002', sex: 'FEMALE', minimumAge: '18 Years' });
+    expect(result.inclusion).toEqual([
+      { text: 'Histologically confirmed metastatic breast cancer' },
+      {
+        text: 'ECOG performance status 0-1',
+        structured: [
+          { type: 'performanceStatus', scale: 'ECOG', comparator: '≥', value: 0 },
+          { type: 'performanceStatus', scale: 'ECOG', comparator: '≤', value: 1 }
+        ]
+      },
+      { text: 'ANC ≥ 1500/µL', structured: [{ type: 'lab', analyte: 'ANC', comparator: '≥', value: 1500, unit: '/µL' }] }
+    ]);
+    expect(result.exclusion.map((criterion: any) => criterion.structured[0])).toEqual([
+      { type: 'priorTherapy', therapy: 'Drug B', negated: false },
+      { type: 'pregnancy', pregnant: true, breastfeeding: true, negativeTest: false, contraception: false }
+    ]);
+  });
+
+  it('parse_eligibility nests sub-bullets and shares thresholds across analytes', async () => {
+    const result = parseToolResult(await server.handleParseEligibility({
+      criteria: [
+        'Inclusion Criteria:',
+        '1. Aged 18 years or older',
+        '2. Adequate organ function:',
+        '   * Platelets ≥ 100,000/mm3',
+        '   * AST and ALT ≤ 2.5 x ULN',
+        '3. Negative serum pregnancy test',
+        '   within 7 days of enrollment',
+        'Exclusion Criteria:',
+        '* No prior chemotherapy'
+      ].join('\n')
+    }));
+
+    expect(result.inclusion[0].structured).toEqual([{ type: 'age', comparator: '≥', value: 18, unit: 'years' }]);
+    expect(result.inclusion[1].children.map((child: any) => child.structured)).toEqual([
+      [{ type: 'lab', analyte: 'Platelets', comparator: '≥', value: 100000, unit: '/mm3' }],
+      [
+        { type: 'lab', analyte: 'AST', comparator: '≤', value: 2.5, unit: 'x ULN' },
+        { type: 'lab', analyte: 'ALT', comparator: '≤', value: 2.5, unit: 'x ULN' }
+      ]
+    ]);
+    expect(result.inclusion[2].text).toBe('Negative serum pregnancy test within 7 days of enrollment');
+    expect(result.inclusion[2].structured[0]).toMatchObject({ type: 'pregnancy', negativeTest: true });
+    expect(result.exclusion[0].structured).toEqual([{ type: 'priorTherapy', therapy: 'chemotherapy', negated: true }]);
+  });
+
+  it('get_study_details includes the parsed criteria', async () => {
+    const result = parseToolResult(await server.handleGetStudyDetails({ nctId: 'NCT99990001', sections: ['eligibility'] }));
+    expect(result.eligibility.parsedCriteria.inclusion[1]).toEqual({
+      text: 'HbA1c between 7.0% and 10.5%',
+      structured: [
+        { type: 'lab', analyte: 'HbA1c', comparator: '≥', value: 7, unit: '%' },
+        { type: 'lab', analyte: 'HbA1c', comparator: '≤', value: 10.5, unit: '%' }
+      ]
+    });
+    expect(result.eligibility.parsedCriteria.exclusion.map((criterion: any) => criterion.text)).toEqual(['Type 1 diabetes', 'Pregnant or breastfeeding']);
+  });
+
+  it('parse_eligibility requires criteria text or an NCT ID', async () => {
+    await expect(server.handleParseEligibility({})).rejects.toThrow(/criteria text or a valid NCT ID/);
+  });
+});
+
+describe('study watchlist', () => {
+  it('watches, lists and unwatches studies', async () => {
+    const watched = parseToolResult(await server.handleWatchStudy({ nctId: 'NCT99990001' }));
+    expect(watched).toMatchObject({ nctId: 'NCT99990001', watched: true, changed: true, watchedCount: 1 });
+    expect(parseToolResult(await server.handleWatchStudy({ nctId: 'NCT99990001' })).changed).toBe(false);
+
+    const list = parseToolResult(await server.handleListWatched({}));
+    expect(list.studies).toEqual([expect.objectContaining({ nctId: 'NCT99990001', status: 'COMPLETED', pendingChanges: 0 })]);
+
+    const unwatched = parseToolResult(await server.handleUnwatchStudy({ nctId: 'NCT99990001' }));
+    expect(unwatched).toMatchObject({ watched: false, changed: true, watchedCount: 0 });
+  });
+
+  it('saves overlapping watchlist updates in order', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'watchlist-'));
+    const file = path.join(dir, 'watchlist.json');
+    const watchlist = new Watchlist({ file, maxChanges: 10 });
+    const studies = await Promise.all(['NCT99990001', 'NCT99990002', 'NCT99990003']
+      .map(async nctId => JSON.parse(await readFile(path.join(FIXTURES_DIR, `${nctId}.json`), 'utf8'))));
+
+    await Promise.all([...studies.map(study => watchlist.watch(study)), watchlist.unwatch('NCT99990002')]);
+    const saved = JSON.parse(await readFile(file, 'utf8'));
+    expect(saved.studies.map((entry: any) => entry.nctId)).toEqual(['NCT99990001', 'NCT99990003']);
+    expect(await readdir(dir)).toEqual(['watchlist.json']);
+    await rm(dir, { recursive: true });
+  });
+
+  it('reports field-level changes found when watched studies are re-checked', async () => {
+    await server.handleWatchStudy({ nctId: 'NCT99990002' });
+    const study = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'NCT99990002.json'), 'utf8'));
+    study.protocolSection.statusModule.overallStatus = 'ACTIVE_NOT_RECRUITING';
+    study.protocolSection.contactsLocationsModule.locations[0].status = 'COMPLETED';
+    study.protocolSection.contactsLocationsModule.locations.push({ facility: 'Lakeside Oncology', city: 'Chicago', country: 'United States' });
+    study.hasResults = true;
+    api.replaceStudy(study);
+
+    const result = parseToolResult(await server.handleGetWatchlistChanges({ checkNow: true, clear: true }));
+    expect(result).toMatchObject({ studiesChecked: 1, changeCount: 1, cleared: true });
+    expect(result.changes[0].summary).toEqual([
+      'Status changed from RECRUITING to ACTIVE_NOT_RECRUITING',
+      '1 site added: Lakeside Oncology, Chicago, United States',
+      'Results posted'
+    ]);
+    expect(result.changes[0].changes).toEqual([
+      { field: 'protocolSection.statusModule.overallStatus', before: 'RECRUITING', after: 'ACTIVE_NOT_RECRUITING' },
+      expect.objectContaining({ field: 'protocolSection.contactsLocationsModule.locations', removed: [expect.objectContaining({ status: 'RECRUITING' })] }),
+      { field: 'hasResults', before: false, after: true }
+    ]);
+
+    // Nothing is reported again once the snapshot has caught up
+    const again = parseToolResult(await server.handleGetWatchlistChanges({ checkNow: true }));
+    expect(again.changeCount).toBe(0);
+    await server.handleUnwatchStudy({ nctId: 'NCT99990002' });
+  });
+
+  it('get_watchlist_changes rejects malformed timestamps', async () => {
+    await expect(server.handleGetWatchlistChanges({ since: 'yesterday' })).rejects.toThrow(/ISO 8601/);
+  });
+});
+
+describe('study version history', () => {
+  it('get_study_history lists versions from the history endpoint', async () => {
+    const result = parseToolResult(await server.handleGetStudyHistory({ nctId: 'NCT99990002', noCache: true }));
+    expect(api.requests[0].path).toBe('/api/int/studies/NCT99990002/history');
+    expect(result.versionCount).toBe(3);
+    expect(result.versions.map((version: any) => [version.version, version.date, version.status])).toEqual([
+      [0, '2024-01-05', 'NOT_YET_RECRUITING'],
+      [1, '2024-03-12', 'RECRUITING'],
+      [2, '2025-06-01', 'RECRUITING']
+    ]);
+  });
+
+  it('diff_study_versions compares the latest version with the one before by default', async () => {
+    const result = parseToolResult(await server.handleDiffStudyVersions({ nctId: 'NCT99990002' }));
+    expect(result.fromVersion.version).toBe(1);
+    expect(result.toVersion.version).toBe(2);
+    expect(result.summary).toEqual([
+      'Primary outcome amended: Objective Response Rate (time frame Up to 12 months → Up to 24 months)',
+      'Eligibility criteria amended',
+      'Enrollment changed from 40 to 60 (estimated)'
+    ]);
+    expect(result.changedModules).toEqual([
+      'protocolSection.statusModule',
+      'protocolSection.designModule',
+      'protocolSection.outcomesModule',
+      'protocolSection.eligibilityModule'
+    ]);
+    expect(result.changes).toContainEqual({
+      field: 'protocolSection.designModule.enrollmentInfo.count',
+      before: 40,
+      after: 60
+    });
+  });
+
+  it('diff_study_versions compares any two versions', async () => {
+    const result = parseToolResult(await server.handleDiffStudyVersions({ nctId: 'NCT99990002', fromVersion: 0, toVersion: 1 }));
+    expect(result.summary).toEqual([
+      'Status changed from NOT_YET_RECRUITING to RECRUITING',
+      '1 site added: Example Cancer Institute, Boston, United States'
+    ]);
+    expect(result.changes).toContainEqual({ field: 'protocolSection.statusModule.startDateStruct.type', before: 'ESTIMATED', after: 'ACTUAL' });
+  });
+
+  it('diff_study_versions rejects an inverted version range', async () => {
+    await expect(server.handleDiffStudyVersions({ nctId: 'NCT99990002', fromVersion: 2, toVersion: 0 }))
+      .rejects.toThrow(/fromVersion must not be after toVersion/);
+    expect(api.requests).toHaveLength(0);
+  });
+
+  it('reports studies and versions without history', async () => {
+    const missing = await server.handleGetStudyHistory({ nctId: 'NCT99990001' });
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].text).toContain('No record history found');
+
+    const unknown = await server.handleDiffStudyVersions({ nctId: 'NCT99990002', fromVersion: 0, toVersion: 7 });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0].text).toContain('available versions: 0, 1, 2');
+  });
+});
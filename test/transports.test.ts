@@ -0,0 +1,237 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { readFile } from 'fs/promises';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { FIXTURES_DIR, startMockApi } from './helpers/mock-api.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const api = await startMockApi();
+process.env.API_BASE_URL = api.url;
+
+beforeEach(() => api.reset());
+afterAll(() => api.close());
+
+describe('stdio MCP transport', () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    client = new Client({ name: 'test-client', version: '0.0.0' });
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: ['--import', 'tsx', path.join(ROOT, 'src/index.ts')],
+      cwd: ROOT,
+      env: { ...process.env } as Record<string, string>,
+      stderr: 'ignore'
+    }));
+  });
+
+  afterAll(() => client.close());
+
+  it('lists every tool', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map(tool => tool.name);
+    expect(names).toContain('search_studies');
+    expect(names).toContain('search_international_studies');
+  });
+
+  it('calls a tool end to end', async () => {
+    const result: any = await client.callTool({
+      name: 'search_by_condition',
+      arguments: { condition: 'diabetes' }
+    });
+    const data = JSON.parse(result.content[0].text);
+    expect(data.studies.map((study: any) => study.nctId)).toEqual(['NCT99990001']);
+    expect(api.requests[0].params['query.cond']).toBe('diabetes');
+  });
+
+  it('returns structuredContent that matches each declared outputSchema', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.every(tool => tool.outputSchema)).toBe(true);
+
+    // The client validates structuredContent against the tool's outputSchema
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ['search_studies', { condition: 'diabetes' }],
+      ['get_study_details', { nctId: 'NCT99990001' }],
+      ['get_study_results', { nctId: 'NCT99990001' }],
+      ['get_study_history', { nctId: 'NCT99990002' }],
+      ['diff_study_versions', { nctId: 'NCT99990002' }],
+      ['get_trial_statistics', {}],
+      ['get_trial_trends', { splitBy: 'phase' }],
+      ['list_rare_diseases_with_trials', { group: 'metabolic', includeEmpty: true }],
+      ['get_competitive_landscape', { condition: 'diabetes', format: 'markdown' }],
+      ['compare_adverse_events', { nctIds: ['NCT99990001', 'NCT99990002'] }],
+      ['get_similar_studies', { nctId: 'NCT99990001' }],
+      ['get_studies_batch', { nctIds: ['NCT99990001', 'NCT00000000', 'x'], sections: ['identification', 'locations'] }],
+      ['get_similar_studies', { nctId: 'NCT99990001', similarityType: 'MULTI_FACTOR' }],
+      ['search_international_studies', {}],
+      ['parse_eligibility', { nctId: 'NCT99990001' }],
+      ['match_patient_to_trials', { patient: { diagnoses: ['breast cancer'], age: 50, sex: 'FEMALE' } }],
+      ['export_studies', { format: 'ndjson' }],
+      ['get_cache_stats', {}],
+      ['list_watched', {}],
+      ['get_watchlist_changes', {}]
+    ];
+    for (const [name, args] of calls) {
+      const result: any = await client.callTool({ name, arguments: args });
+      expect(result.isError, name).toBeFalsy();
+      expect(result.structuredContent, name).toEqual(JSON.parse(result.content[0].text));
+    }
+  });
+
+  it('lists study resource templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'clinicaltrials://study/{nctId}',
+      'clinicaltrials://study/{nctId}/results',
+      'clinicaltrials://study/{nctId}/locations'
+    ]);
+  });
+
+  it('reads study resources and lists them afterwards', async () => {
+    const record = await client.readResource({ uri: 'clinicaltrials://study/NCT99990001' });
+    expect(JSON.parse(record.contents[0].text as string).protocolSection.identificationModule.nctId).toBe('NCT99990001');
+
+    const results = await client.readResource({ uri: 'clinicaltrials://study/NCT99990001/results' });
+    expect(JSON.parse(results.contents[0].text as string).adverseEvents.seriousEvents[0].term).toBe('Hypoglycaemia');
+
+    const locations = await client.readResource({ uri: 'clinicaltrials://study/NCT99990003/locations' });
+    expect(JSON.parse(locations.contents[0].text as string).locations).toHaveLength(2);
+
+    const { resources } = await client.listResources();
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'clinicaltrials://study/NCT99990003',
+      'clinicaltrials://study/NCT99990001'
+    ]);
+  });
+
+  it('rejects unknown resource URIs', async () => {
+    await expect(client.readResource({ uri: 'clinicaltrials://trial/NCT99990001' })).rejects.toThrow(/Unsupported resource URI/);
+  });
+
+  it('lists and renders workflow prompts', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual([
+      'find_trials_for_patient',
+      'competitive_landscape',
+      'compare_trial_endpoints'
+    ]);
+
+    const prompt = await client.getPrompt({
+      name: 'find_trials_for_patient',
+      arguments: { condition: 'breast cancer', location: 'Boston' }
+    });
+    const text = (prompt.messages[0].content as { text: string }).text;
+    expect(text).toContain('Call get_recruiting_studies with condition "breast cancer" and location "Boston"');
+
+    const landscape = await client.getPrompt({ name: 'competitive_landscape', arguments: { intervention: 'Drug A' } });
+    const steps = (landscape.messages[0].content as { text: string }).text;
+    expect(steps).not.toContain('get_trial_statistics');
+    expect(steps).toContain('Tally the trials from step 1 by lead sponsor, phase and status');
+  });
+
+  it('rejects prompts with missing required arguments', async () => {
+    await expect(client.getPrompt({ name: 'compare_trial_endpoints', arguments: {} })).rejects.toThrow(/nctIds/);
+  });
+
+  it('returns protocol errors for unknown tools', async () => {
+    await expect(client.callTool({ name: 'no_such_tool', arguments: {} })).rejects.toThrow(/Unknown tool/);
+  });
+
+  it('notifies resource subscribers when a watched study changes', async () => {
+    const uri = 'clinicaltrials://study/NCT99990002';
+    const updated = new Promise<string>(resolve =>
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri)));
+
+    await client.callTool({ name: 'watch_study', arguments: { nctId: 'NCT99990002' } });
+    await client.subscribeResource({ uri });
+
+    const study = JSON.parse(await readFile(path.join(FIXTURES_DIR, 'NCT99990002.json'), 'utf8'));
+    study.protocolSection.statusModule.overallStatus = 'COMPLETED';
+    api.replaceStudy(study);
+
+    const result: any = await client.callTool({ name: 'get_watchlist_changes', arguments: { checkNow: true } });
+    expect(result.structuredContent.changes[0].summary).toEqual(['Status changed from RECRUITING to COMPLETED']);
+    expect(await updated).toBe(uri);
+  });
+});
+
+describe('REST routes', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const { default: app } = await import('../src/http-server.js');
+    httpServer = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => httpServer.close(() => resolve())));
+
+  const post = (route: string, body: unknown) => fetch(`${baseUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  it('reports health', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+    expect((await response.json()).status).toBe('healthy');
+  });
+
+  it('lists tool endpoints', async () => {
+    const { tools } = await (await fetch(`${baseUrl}/tools`)).json();
+    expect(tools.find((tool: any) => tool.name === 'get_study_details').endpoint).toBe('/api/get_study_details');
+  });
+
+  it('runs a search through /api/search_studies', async () => {
+    const response = await post('/api/search_studies', { status: 'RECRUITING' });
+    const body = await response.json();
+    expect(body.success).toBe(true);
+    expect(body.data.studies.map((study: any) => study.nctId)).toEqual(['NCT99990002']);
+    expect(api.requests[0].params['filter.overallStatus']).toBe('RECRUITING');
+  });
+
+  it('returns study details through /api/get_study_details', async () => {
+    const body = await (await post('/api/get_study_details', { nctId: 'NCT99990003' })).json();
+    expect(body.data.identification.nctId).toBe('NCT99990003');
+  });
+
+  it('reports tool errors without re-parsing their text', async () => {
+    const body = await (await post('/api/get_study_details', { nctId: 'NCT00000000' })).json();
+    expect(body).toEqual({
+      success: false,
+      tool: 'get_study_details',
+      error: 'No study found with NCT ID: NCT00000000',
+      isError: true
+    });
+  });
+
+  it('streams exports as a file download', async () => {
+    const response = await post('/api/export_studies', { status: 'RECRUITING', columns: ['nctId', 'title'] });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/csv');
+    expect(response.headers.get('content-disposition')).toBe('attachment; filename="clinical-trials-export.csv"');
+    expect(await response.text()).toBe('nctId,title\r\nNCT99990002,Sample Study of Drug B in Metastatic Breast Cancer\r\n');
+  });
+
+  it('rejects invalid export arguments before streaming', async () => {
+    const response = await post('/api/export_studies', { format: 'pdf' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/Unknown export format: pdf/);
+  });
+
+  it('returns 400 for invalid arguments', async () => {
+    const response = await post('/api/get_study_details', { nctId: 'bad' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).success).toBe(false);
+  });
+});
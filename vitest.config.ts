@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    testTimeout: 20000,
+    env: {
+      // Keep tests fast and deterministic: no throttling, no caching, short backoff
+      API_RATE_LIMIT_RPS: '0',
+      API_RETRY_BASE_DELAY_MS: '1',
+      API_RETRY_MAX_DELAY_MS: '5',
+      CACHE_STUDY_TTL_SECONDS: '0',
+      CACHE_SEARCH_TTL_SECONDS: '0'
+    }
+  }
+});